@@ -0,0 +1,206 @@
+import { existsSync, mkdirSync, readFileSync, watch, writeFileSync } from "fs";
+import { basename, dirname, extname, resolve } from "path";
+import { parseArgs } from "util";
+import type { OpenApiRouter } from "./router";
+import { generateClient, generateSpecModule } from "./generate";
+import { sortKeys } from "./utils";
+import { parseYaml, toYaml } from "./yaml";
+
+const USAGE = `Usage:
+  openapi-fastify export <source> [options]     writes the specification (with sorted keys and paths)
+  openapi-fastify generate <source> [options]   writes a TypeScript fetch client for the specification
+  openapi-fastify spec <source> [options]       writes a TypeScript module exporting the specification \`as const\`, with a type per component schema
+
+<source> is a module exporting an OpenApiRouter, or a specification file (.json, .yaml or .yml).
+
+Options:
+  --export <name>     the export holding the router (default: "router", "default" or the first router found)
+  --autoload <glob>   autoload route files (relative to the current directory) before exporting, repeatable
+  --exclude <glob>    files to exclude from --autoload, repeatable
+  --format <format>   export: "json" or "yaml" (default: from the --out extension, otherwise "json")
+  --name <name>       generate: the name of the client factory (default: "createClient")
+                      spec: the name of the exported specification (default: "specification")
+  --out <file>        the file to write (default: stdout)
+  --check             exit with 1 instead of writing when <file> is out of date
+  --watch             rewrite <file> whenever the specification file changes (requires --out)
+  -h, --help          show this message
+
+TypeScript modules require a loader, e.g. \`npx tsx ./node_modules/.bin/openapi-fastify export src/app.ts\`.`;
+
+export type ExportOptions = {
+  /** the path of the module exporting the router, or of a specification file */
+  module: string,
+  export?: string,
+  autoload?: string[],
+  exclude?: string[],
+  format?: 'json' | 'yaml',
+  out?: string,
+  check?: boolean,
+}
+
+export type GenerateOptions = Omit<ExportOptions, 'format'> & {
+  /** the name of the client factory (`generate`) or of the exported specification (`spec`) */
+  name?: string,
+}
+
+const SPECIFICATION_EXTENSIONS = ['.json', '.yaml', '.yml'];
+
+const isRouter = (value: any): value is OpenApiRouter<any> =>
+  !!value && typeof value === 'object' && Array.isArray(value.routes) && typeof value.autoload === 'function' && 'specification' in value;
+
+/**
+ * @description
+ * - Returns the router exported by a module: the named export, or `router`, `default` or the first export that is a router.
+ */
+const getExportedRouter = (module: Record<string, any>, name?: string) => {
+  if (name) {
+    const router = module[name] ?? module.default?.[name];
+    if (!isRouter(router)) throw new Error(`[openapi-fastify] Export "${name}" is not an OpenApiRouter`);
+    return router;
+  }
+  const candidates = [module.router, module.default, ...Object.values(module), ...(module.default && typeof module.default === 'object' ? Object.values(module.default) : [])];
+  const router = candidates.find(isRouter);
+  if (!router) throw new Error('[openapi-fastify] The module does not export an OpenApiRouter');
+  return router;
+}
+
+/**
+ * @description
+ * - Reads a specification file, or loads the router module (autoloading route files if requested) and returns its specification.
+ */
+const loadSpecification = async (options: Omit<ExportOptions, 'format' | 'out' | 'check'>) => {
+  const extension = extname(options.module).toLowerCase();
+  if (SPECIFICATION_EXTENSIONS.includes(extension)) {
+    const source = readFileSync(resolve(options.module), 'utf8');
+    return extension === '.json' ? JSON.parse(source) : parseYaml(source);
+  }
+  const module = await import(resolve(options.module));
+  const router = getExportedRouter(module, options.export);
+  if (options.autoload?.length) await router.autoload({ include: options.autoload, exclude: options.exclude, cwd: process.cwd() });
+  return router.specification;
+}
+
+/**
+ * @description
+ * - Loads the specification (see `loadSpecification`) and serializes it with sorted keys.
+ * @example
+ * ```typescript
+ * await exportSpecification({ module: 'src/app.ts', autoload: ['src/routes/**\/*.ts'], format: 'yaml' })
+ * ```
+ */
+export const exportSpecification = async (options: ExportOptions) => {
+  const specification = sortKeys(await loadSpecification(options));
+  const format = options.format ?? (['.yaml', '.yml'].includes(extname(options.out ?? '').toLowerCase()) ? 'yaml' : 'json');
+  return format === 'yaml' ? toYaml(specification) : `${JSON.stringify(specification, null, 2)}\n`;
+}
+
+/**
+ * @description
+ * - Loads the specification (see `loadSpecification`) and generates a TypeScript fetch client for it (see `generateClient`).
+ * @example
+ * ```typescript
+ * await generateClientModule({ module: 'openapi.yaml', name: 'createApi' })
+ * ```
+ */
+export const generateClientModule = async (options: GenerateOptions) => generateClient(await loadSpecification(options), { name: options.name });
+
+/**
+ * @description
+ * - Loads the specification (see `loadSpecification`) and generates a TypeScript module exporting it `as const` (see `generateSpecModule`).
+ * @example
+ * ```typescript
+ * await generateSpecModuleFile({ module: 'openapi.yaml' })
+ * ```
+ */
+export const generateSpecModuleFile = async (options: GenerateOptions) => generateSpecModule(await loadSpecification(options), { name: options.name });
+
+/**
+ * @description
+ * - Calls `listener` when a file is changed, debounced so that the several events of a single save call it once.
+ * - Watches the directory of the file, since editors often save by replacing the file.
+ * @example
+ * ```typescript
+ * const watcher = watchSpecificationFile('openapi.yaml', () => console.log('changed'));
+ * watcher.close();
+ * ```
+ */
+export const watchSpecificationFile = (file: string, listener: () => void, delay = 50) => {
+  let timeout: NodeJS.Timeout | undefined;
+  const watcher = watch(dirname(resolve(file)), (_event, filename) => {
+    if (filename !== basename(file)) return;
+    clearTimeout(timeout);
+    timeout = setTimeout(listener, delay);
+  });
+  watcher.on('close', () => clearTimeout(timeout));
+  return watcher;
+}
+
+/**
+ * @description
+ * - Runs the `openapi-fastify` command line with the given arguments, returning the exit code.
+ */
+export const run = async (argv: string[] = process.argv.slice(2)) => {
+  try {
+    const { values, positionals } = parseArgs({
+      args: argv,
+      allowPositionals: true,
+      options: {
+        export: { type: 'string' },
+        autoload: { type: 'string', multiple: true },
+        exclude: { type: 'string', multiple: true },
+        format: { type: 'string' },
+        name: { type: 'string' },
+        out: { type: 'string' },
+        check: { type: 'boolean' },
+        watch: { type: 'boolean' },
+        help: { type: 'boolean', short: 'h' },
+      }
+    });
+    const [command, module] = positionals;
+    if (values.help) {
+      console.log(USAGE);
+      return 0;
+    }
+    const isCommand = command === 'export' || command === 'generate' || command === 'spec';
+    if (!isCommand || !module) throw new Error(`[openapi-fastify] ${command && !isCommand ? `Unknown command "${command}"` : 'Missing module'}\n\n${USAGE}`);
+    if (values.format && values.format !== 'json' && values.format !== 'yaml') throw new Error(`[openapi-fastify] Unknown format "${values.format}" (expected "json" or "yaml")`);
+    if (values.check && !values.out) throw new Error('[openapi-fastify] --check requires --out');
+    if (values.watch && (!values.out || values.check)) throw new Error('[openapi-fastify] --watch requires --out (and cannot be combined with --check)');
+    if (values.watch && !SPECIFICATION_EXTENSIONS.includes(extname(module).toLowerCase())) throw new Error('[openapi-fastify] --watch requires a specification file (.json, .yaml or .yml)');
+    const write = async () => {
+      const output = command === 'generate'
+        ? await generateClientModule({ ...values, module })
+        : command === 'spec'
+          ? await generateSpecModuleFile({ ...values, module })
+          : await exportSpecification({ ...values, module, format: values.format as ExportOptions['format'] });
+      if (!values.out) {
+        process.stdout.write(output);
+        return 0;
+      }
+      const out = resolve(values.out);
+      if (values.check) {
+        if (existsSync(out) && readFileSync(out, 'utf8') === output) return 0;
+        console.error(`[openapi-fastify] ${values.out} is out of date, run \`openapi-fastify ${command}\` without --check to update it`);
+        return 1;
+      }
+      mkdirSync(dirname(out), { recursive: true });
+      writeFileSync(out, output);
+      return 0;
+    }
+    if (!values.watch) return await write();
+    // a broken save is reported without ending the watch
+    const update = () => write().then(
+      () => console.log(`[openapi-fastify] Wrote ${values.out}`),
+      error => console.error((error as Error)?.message ?? error)
+    );
+    await update();
+    const watcher = watchSpecificationFile(module, update);
+    console.log(`[openapi-fastify] Watching ${module} for changes (press Ctrl+C to stop)`);
+    await new Promise<void>(done => process.once('SIGINT', () => done()));
+    watcher.close();
+    return 0;
+  } catch (error) {
+    console.error((error as Error)?.message ?? error);
+    return 1;
+  }
+}
@@ -0,0 +1,126 @@
+import { InjectOptions, LightMyRequestResponse } from "fastify";
+import { OpenAPI } from "./types";
+import { Readable } from "stream";
+import { OperationValidators, OperatorName } from "./types/router.types";
+import { dereference, getMediaTypeMatch, getResponseStatusKey, isObject, normalizeMediaType } from "./utils";
+import { getOperationParameters, getParameterExplode, getParameterStyle, QUERY_DELIMITERS } from "./parameters";
+import { URLENCODED_MEDIA_TYPE } from "./multipart";
+import { getResponseValidator } from "./validation";
+import { getSecurityRequirements } from "./security";
+
+const serializeSimpleValue = (value: any) => Array.isArray(value) ? value.join(',') : isObject(value) ? Object.entries(value).flat().join(',') : String(value);
+
+/**
+ * @description
+ * - Serializes the query parameters of a client request according to their `style` and `explode` (the inverse of `deserializeParameter`), parameters described by `content` are JSON encoded.
+ * - Undeclared parameters are serialized with the defaults (`form`, exploded).
+ * @example
+ * ```typescript
+ * serializeQuery({ ids: [1, 2], filter: { status: 'open' } }, [{ name: 'ids', in: 'query', explode: false }, { name: 'filter', in: 'query', style: 'deepObject' }])
+ * // 'ids=1%2C2&filter%5Bstatus%5D=open'
+ * ```
+ */
+export const serializeQuery = (query: Record<string, any>, parameters: OpenAPI.Parameter[] = []) => {
+  const search = new URLSearchParams();
+  for (const [name, value] of Object.entries(query)) {
+    if (value === undefined) continue;
+    const parameter = parameters.find(parameter => parameter.in === 'query' && parameter.name === name) ?? { name, in: 'query' };
+    if ('content' in parameter && parameter.content) {
+      search.append(name, typeof value === 'string' ? value : JSON.stringify(value));
+      continue;
+    }
+    const style = getParameterStyle(parameter);
+    const explode = getParameterExplode(parameter);
+    if (Array.isArray(value)) {
+      if (explode) value.forEach(item => search.append(name, String(item)));
+      else search.append(name, value.join(QUERY_DELIMITERS[style] ?? ','));
+    } else if (isObject(value)) {
+      const entries = Object.entries(value).filter(([, item]) => item !== undefined);
+      if (style === 'deepObject') entries.forEach(([key, item]) => search.append(`${name}[${key}]`, String(item)));
+      else if (explode) entries.forEach(([key, item]) => search.append(key, String(item)));
+      else search.append(name, entries.flat().join(','));
+    } else search.append(name, String(value));
+  }
+  return search.toString();
+}
+
+/**
+ * @description
+ * - Builds the `app.inject` options of a client request to an operation registered at `path` (e.g. `/users/:id`): path parameters are substituted, the query is serialized according to the parameters and the body according to its content type.
+ * - The body is sent as the JSON media type of the request body (or its first) unless `contentType` is given, form bodies honor the `encoding` of their media type.
+ * - Throws if a path parameter is missing.
+ */
+export const getClientInjectOptions = (method: OperatorName, path: string, request: { params?: Record<string, any>, query?: Record<string, any>, headers?: Record<string, any>, cookies?: Record<string, any>, body?: any, contentType?: string }, { specification, document, headers: defaultHeaders }: { specification: OpenAPI.Operator, document?: any, headers?: Record<string, string> }): InjectOptions => {
+  const { params = {}, query = {}, headers = {}, cookies, body, contentType: requestContentType } = request;
+  const url = path.replace(/:([a-zA-Z_][a-zA-Z0-9_]*)/g, (_, name: string) => {
+    if (params[name] === undefined || params[name] === null) throw new Error(`[openapi-fastify] Missing path parameter "${name}" (${method.toUpperCase()} ${path})`);
+    return encodeURIComponent(serializeSimpleValue(params[name]));
+  });
+  const querystring = serializeQuery(query, getOperationParameters(specification, document));
+  const options: InjectOptions = {
+    method: method.toUpperCase() as InjectOptions['method'],
+    url: querystring ? `${url}?${querystring}` : url,
+    headers: { ...defaultHeaders, ...Object.fromEntries(Object.entries(headers).filter(([, value]) => value !== undefined).map(([name, value]) => [name.toLowerCase(), serializeSimpleValue(value)])) },
+  };
+  if (cookies) options.cookies = Object.fromEntries(Object.entries(cookies).filter(([, value]) => value !== undefined).map(([name, value]) => [name, serializeSimpleValue(value)]));
+  if (body === undefined) return options;
+  const content: Record<string, any> = dereference<OpenAPI.RequestBody>(document, (specification as { requestBody?: OpenAPI.RequestBody }).requestBody)?.content ?? {};
+  const mediaTypes = Object.keys(content);
+  const contentType = requestContentType ?? mediaTypes.find(mediaType => /[/+]json$/i.test(normalizeMediaType(mediaType))) ?? mediaTypes[0] ?? 'application/json';
+  options.headers = { ...options.headers, 'content-type': contentType };
+  if (typeof body === 'string' || Buffer.isBuffer(body) || body instanceof Readable) options.payload = body;
+  else if (getMediaTypeMatch(contentType, [URLENCODED_MEDIA_TYPE])) {
+    const encoding: Record<string, { contentType?: string, style?: string, explode?: boolean }> = content[getMediaTypeMatch(contentType, mediaTypes) ?? '']?.encoding ?? {};
+    options.payload = serializeQuery(body, Object.entries(encoding).map(([name, { contentType, style, explode }]) =>
+      (contentType && getMediaTypeMatch(contentType, ['application/json']) ? { name, in: 'query', content: { [contentType]: {} } } : { name, in: 'query', style, explode }) as OpenAPI.Parameter));
+  }
+  else options.payload = JSON.stringify(body);
+  return options;
+}
+
+/**
+ * @description
+ * - Returns the body of an `app.inject` response: parsed when it is JSON, `undefined` when it is empty, the text otherwise.
+ */
+export const getClientResponseBody = (response: LightMyRequestResponse) => {
+  if (response.body === '') return undefined;
+  const contentType = response.headers['content-type']?.toString();
+  if (!contentType || !/[/+]json$/i.test(normalizeMediaType(contentType))) return response.body;
+  try {
+    return JSON.parse(response.body);
+  } catch {
+    return response.body;
+  }
+}
+
+/**
+ * @description
+ * - Returns the statuses the router itself may answer an operation with that the operation does not declare: `400` for invalid parameters or bodies, `401`/`403` for unmet security requirements and `415` for undeclared content types.
+ * @example
+ * ```typescript
+ * getRouterStatuses({ parameters: [{ name: 'id', in: 'path', required: true }], security: [{ bearerAuth: [] }], responses: { 200: { description: 'OK' }, 401: { description: 'Unauthorized' } } }) // ['400', '403']
+ * ```
+ */
+export const getRouterStatuses = (specification: OpenAPI.Operator, document?: any) => {
+  const statuses = Object.keys(isObject(specification.responses) ? specification.responses : {});
+  const hasRequestBody = Boolean(dereference(document, (specification as { requestBody?: OpenAPI.RequestBody }).requestBody));
+  const security = getSecurityRequirements(specification, document);
+  return [
+    ...(hasRequestBody || getOperationParameters(specification, document).length > 0 ? ['400'] : []),
+    ...(security.length > 0 && security.every(requirement => Object.keys(requirement).length > 0) ? ['401', '403'] : []),
+    ...(hasRequestBody ? ['415'] : []),
+  ].filter(status => !getResponseStatusKey(status, statuses));
+}
+
+/**
+ * @description
+ * - Checks a client response against the responses of its operation, throwing if its status is neither declared nor one the router answers with itself (see `getRouterStatuses`), or if its body fails the (compiled) validator of the response.
+ */
+export const validateClientResponse = ({ statusCode, headers, body }: { statusCode: number, headers: LightMyRequestResponse['headers'], body: any }, specification: OpenAPI.Operator, validators: OperationValidators['response'], name: string, document?: any) => {
+  const statuses = [...Object.keys(isObject(specification.responses) ? specification.responses : {}), ...getRouterStatuses(specification, document)];
+  if (!getResponseStatusKey(statusCode, statuses)) throw new Error(`[openapi-fastify] ${name} responded with undeclared status ${statusCode}`);
+  const validate = getResponseValidator(validators, statusCode, headers['content-type']?.toString() ?? 'application/json');
+  if (!validate || body === undefined || validate(body)) return;
+  const message = (validate.errors ?? []).map(error => `${error.instancePath ? `${error.instancePath} ` : ''}${error.message}`).join(', ');
+  throw Object.assign(new Error(`[openapi-fastify] ${name} responded with an invalid ${statusCode} body: ${message}`), { errors: validate.errors });
+}
@@ -0,0 +1,114 @@
+import { createHash } from "crypto";
+import { DocsConfig } from "./types/router.types";
+
+export const DOCS_DEFAULTS = {
+  json: '/openapi.json',
+  yaml: '/openapi.yaml',
+  ui: '/docs',
+} as const;
+
+export const DOCS_CONTENT_TYPES = {
+  json: 'application/json; charset=utf-8',
+  yaml: 'application/yaml; charset=utf-8',
+  ui: 'text/html; charset=utf-8',
+} as const;
+
+export const getDocsConfig = (docs: DocsConfig = false): { json: string | false, yaml: string | false, ui: string | false } | undefined => {
+  if (!docs) return undefined;
+  if (docs === true) return { ...DOCS_DEFAULTS };
+  return {
+    json: docs.json ?? DOCS_DEFAULTS.json,
+    yaml: docs.yaml ?? DOCS_DEFAULTS.yaml,
+    ui: docs.ui ?? DOCS_DEFAULTS.ui,
+  };
+}
+
+/**
+ * @description
+ * - Returns a strong `ETag` for a response body.
+ */
+export const getETag = (body: string) => `"${createHash('sha1').update(body).digest('base64url')}"`;
+
+/**
+ * @description
+ * - Whether an `If-None-Match` header matches the given `ETag` (weak comparison, as required for `GET`).
+ */
+export const isETagMatch = (ifNoneMatch: string | string[] | undefined, etag: string) =>
+  ([] as string[]).concat(ifNoneMatch ?? []).join(',').split(',').map(tag => tag.trim().replace(/^W\//, '')).some(tag => tag === '*' || tag === etag);
+
+const escapeHtml = (value: string) => value.replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`);
+
+/**
+ * @description
+ * - Renders a self-contained HTML docs page for an OpenAPI document: the document and the page's styles and script are inlined, so it needs no network access.
+ */
+export const getDocsHtml = (document: any, links: { json?: string | false, yaml?: string | false } = {}) => {
+  const title = String(document?.info?.title ?? 'API Docs');
+  const downloads = [links.json && `<a href="${escapeHtml(links.json)}">JSON</a>`, links.yaml && `<a href="${escapeHtml(links.yaml)}">YAML</a>`].filter(Boolean).join(' ');
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)}</title>
+<style>
+body{font-family:system-ui,sans-serif;margin:0 auto;max-width:960px;padding:1rem 2rem;color:#1f2328}
+header{display:flex;align-items:baseline;justify-content:space-between;border-bottom:1px solid #d0d7de}
+header a{margin-left:.75rem}
+details{border:1px solid #d0d7de;border-radius:6px;margin:.5rem 0}
+summary{cursor:pointer;padding:.5rem .75rem;font-family:ui-monospace,monospace}
+details>div{padding:0 .75rem .75rem}
+.method{display:inline-block;min-width:4.5rem;font-weight:600;text-transform:uppercase}
+.get{color:#0969da}.post{color:#1a7f37}.put,.patch{color:#9a6700}.delete{color:#cf222e}
+.deprecated{text-decoration:line-through}
+pre{background:#f6f8fa;border-radius:6px;padding:.5rem;overflow:auto;font-size:.85rem}
+table{border-collapse:collapse}td,th{text-align:left;padding:.25rem .75rem .25rem 0;vertical-align:top}
+</style>
+</head>
+<body>
+<header><h1>${escapeHtml(title)} <small>${escapeHtml(String(document?.info?.version ?? ''))}</small></h1><nav>${downloads}</nav></header>
+<main id="operations"></main>
+<script type="application/json" id="openapi-document">${JSON.stringify(document ?? {}).replace(/</g, '\\u003c')}</script>
+<script>
+(function () {
+  var doc = JSON.parse(document.getElementById('openapi-document').textContent);
+  var methods = ['get', 'put', 'post', 'delete', 'options', 'head', 'patch', 'trace'];
+  var main = document.getElementById('operations');
+  function el(tag, attrs, children) {
+    var node = document.createElement(tag);
+    Object.keys(attrs || {}).forEach(function (key) { node.setAttribute(key, attrs[key]); });
+    (children || []).forEach(function (child) { node.append(child); });
+    return node;
+  }
+  function json(value) { return el('pre', {}, [JSON.stringify(value, null, 2)]); }
+  if (doc.info && doc.info.description) main.append(el('p', {}, [doc.info.description]));
+  Object.keys(doc.paths || {}).forEach(function (path) {
+    methods.filter(function (method) { return doc.paths[path][method]; }).forEach(function (method) {
+      var op = doc.paths[path][method];
+      var body = el('div');
+      if (op.description) body.append(el('p', {}, [op.description]));
+      var parameters = (doc.paths[path].parameters || []).concat(op.parameters || []);
+      if (parameters.length) body.append(el('h4', {}, ['Parameters']), el('table', {}, parameters.map(function (p) {
+        return el('tr', {}, [el('td', {}, [el('code', {}, [p.name || p.$ref])]), el('td', {}, [p.in || '']), el('td', {}, [p.required ? 'required' : '']), el('td', {}, [p.description || ''])]);
+      })));
+      if (op.requestBody) body.append(el('h4', {}, ['Request Body']), json(op.requestBody));
+      if (op.responses) body.append(el('h4', {}, ['Responses']), json(op.responses));
+      if (op.security) body.append(el('h4', {}, ['Security']), json(op.security));
+      main.append(el('details', {}, [
+        el('summary', { class: op.deprecated ? 'deprecated' : '' }, [el('span', { class: 'method ' + method }, [method]), path, op.summary ? ' \u2014 ' + op.summary : '']),
+        body
+      ]));
+    });
+  });
+  if (doc.components && doc.components.schemas) {
+    main.append(el('h2', {}, ['Schemas']));
+    Object.keys(doc.components.schemas).forEach(function (name) {
+      main.append(el('details', {}, [el('summary', {}, [name]), el('div', {}, [json(doc.components.schemas[name])])]));
+    });
+  }
+})();
+</script>
+</body>
+</html>
+`;
+}
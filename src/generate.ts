@@ -0,0 +1,437 @@
+import { OpenAPI } from "./types";
+import { dereference, getDocumentOperations, isObject } from "./utils";
+import { getOperationParameters, getParameterExplode, getParameterStyle } from "./parameters";
+import { getRouterStatuses } from "./client";
+
+export type GenerateClientOptions = {
+  /**
+   * @description The name of the generated client factory.
+   * @default 'createClient'
+   */
+  name?: string,
+}
+
+export type GenerateSpecModuleOptions = {
+  /**
+   * @description The name of the exported document (also the default export).
+   * @default 'specification'
+   */
+  name?: string,
+}
+
+type GeneratorContext = {
+  document: any,
+  /** the type names of the document's component schemas, keyed by `$ref` */
+  schemaNames: Map<string, string>,
+  /** the `$ref`s being inlined, to stop at circular references that have no type name */
+  inlining: Set<string>,
+}
+
+/** the global types of JavaScript and TypeScript, which component schemas are renamed around so they do not shadow them (e.g. `Error`) */
+const GLOBAL_TYPE_NAMES = [
+  'Array', 'ArrayBuffer', 'ArrayLike', 'Awaited', 'BigInt', 'Blob', 'Boolean', 'Capitalize', 'DataView', 'Date', 'Error', 'EvalError', 'Exclude', 'Extract',
+  'Function', 'InstanceType', 'Iterable', 'Iterator', 'JSON', 'Lowercase', 'Map', 'Math', 'NonNullable', 'Number', 'Object', 'Omit', 'Parameters', 'Partial',
+  'Pick', 'Promise', 'PromiseLike', 'PropertyKey', 'Proxy', 'RangeError', 'Readonly', 'ReadonlyArray', 'Record', 'ReferenceError', 'Reflect', 'RegExp', 'Required',
+  'ReturnType', 'Set', 'String', 'Symbol', 'SyntaxError', 'TypeError', 'Uncapitalize', 'Uppercase', 'URIError', 'WeakMap', 'WeakSet'
+];
+
+/** the names the generated client declares or uses, which component schemas are renamed around */
+const RESERVED_TYPE_NAMES = [...GLOBAL_TYPE_NAMES, 'ClientOptions', 'Client', 'Operations', 'ApiSuccess', 'ApiFailure', 'RequestOptions', 'OperationInfo', 'RequestInput', 'BodyInit', 'FormData', 'Headers', 'HeadersInit', 'RequestInit', 'Response', 'URLSearchParams'];
+
+const JSON_MEDIA_TYPE = /[/+]json$/i;
+
+const getMediaType = (contentType: string) => contentType.split(';')[0].trim().toLowerCase();
+
+const isIdentifier = (value: string) => /^[A-Za-z_$][\w$]*$/.test(value);
+
+const toWords = (value: string) => value.replace(/([a-z\d])([A-Z])/g, '$1 $2').split(/[^A-Za-z\d]+/).filter(Boolean);
+
+const toCamelCase = (value: string) => {
+  const camel = toWords(value).map((word, index) => index === 0 ? word[0].toLowerCase() + word.slice(1) : word[0].toUpperCase() + word.slice(1)).join('');
+  return /^\d/.test(camel) ? `_${camel}` : camel || '_';
+}
+
+const toPascalCase = (value: string) => {
+  const camel = toCamelCase(value);
+  return camel.startsWith('_') ? camel : camel[0].toUpperCase() + camel.slice(1);
+}
+
+const toPropertyKey = (key: string) => isIdentifier(key) ? key : JSON.stringify(key);
+
+const toDocComment = (lines: (string | undefined)[], indent: string) => {
+  const text = lines.filter((line): line is string => !!line?.trim()).join('\n').replace(/\*\//g, '*\\/').trim();
+  if (!text) return '';
+  if (!text.includes('\n')) return `${indent}/** ${text} */\n`;
+  return `${indent}/**\n${text.split('\n').map(line => `${indent} * ${line}`.trimEnd()).join('\n')}\n${indent} */\n`;
+}
+
+const toLiteral = (value: unknown): string => {
+  if (Array.isArray(value)) return `[${value.map(toLiteral).join(', ')}]`;
+  if (!isObject(value)) return JSON.stringify(value) ?? 'null';
+  const entries = Object.entries(value).map(([key, item]) => `${toPropertyKey(key)}: ${toLiteral(item)}`);
+  return entries.length ? `{ ${entries.join(', ')} }` : '{}';
+}
+
+/**
+ * Renders a value as an object literal, on a single line while it fits in `width` columns.
+ */
+const toDocumentLiteral = (value: unknown, indent = '', width = 100): string => {
+  const literal = toLiteral(value);
+  if (indent.length + literal.length <= width) return literal;
+  const inner = `${indent}  `;
+  if (Array.isArray(value)) return value.length ? `[\n${value.map(item => `${inner}${toDocumentLiteral(item, inner)}`).join(',\n')}\n${indent}]` : '[]';
+  if (!isObject(value)) return literal;
+  const entries = Object.entries(value).map(([key, item]) => `${inner}${toPropertyKey(key)}: ${toDocumentLiteral(item, inner)}`);
+  return entries.length ? `{\n${entries.join(',\n')}\n${indent}}` : '{}';
+}
+
+const getSchemaRef = (schemaName: string) => `#/components/schemas/${schemaName.replace(/~/g, '~0').replace(/\//g, '~1')}`;
+
+/**
+ * Names the document's component schemas in PascalCase, suffixing the names taken by `reserved` (or by another schema).
+ */
+const createGeneratorContext = (document: any, reserved: string[]) => {
+  const context: GeneratorContext = { document, schemaNames: new Map(), inlining: new Set() };
+  const usedNames = new Set(reserved);
+  const schemas = Object.entries<any>(isObject(document?.components?.schemas) ? document.components.schemas : {});
+  for (const [schemaName] of schemas) {
+    let typeName = toPascalCase(schemaName);
+    if (usedNames.has(typeName)) typeName = `${typeName}Schema`;
+    for (let index = 2; usedNames.has(typeName); index++) typeName = `${toPascalCase(schemaName)}${index}`;
+    usedNames.add(typeName);
+    context.schemaNames.set(getSchemaRef(schemaName), typeName);
+  }
+  return { context, schemas };
+}
+
+const getDocumentTitle = (document: any) => document?.info?.title ? `"${document.info.title}"${document.info.version ? ` (${document.info.version})` : ''}` : 'an OpenAPI document';
+
+const wrapUnion = (type: string) => /^[^{(<[]*\|/.test(type) || (type.includes(' | ') && !type.startsWith('{')) ? `(${type})` : type;
+
+/**
+ * Renders the TypeScript type of a JSON schema, referencing component schemas by their type names.
+ */
+const getSchemaType = (schema: any, context: GeneratorContext, indent = ''): string => {
+  if (schema === false) return 'never';
+  if (!isObject(schema)) return 'unknown';
+  if (typeof schema.$ref === 'string') {
+    const name = context.schemaNames.get(schema.$ref);
+    if (name) return name;
+    if (context.inlining.has(schema.$ref)) return 'unknown';
+    context.inlining.add(schema.$ref);
+    const type = getSchemaType(dereference(context.document, schema), context, indent);
+    context.inlining.delete(schema.$ref);
+    return type;
+  }
+  const nullable = (type: string) => schema.nullable === true && type !== 'unknown' ? `${type} | null` : type;
+  if ('const' in schema) return nullable(JSON.stringify(schema.const));
+  if (Array.isArray(schema.enum)) return nullable(schema.enum.map((value: unknown) => JSON.stringify(value)).join(' | ') || 'never');
+  if (Array.isArray(schema.allOf)) {
+    const { allOf, ...rest } = schema;
+    const members = [...allOf, ...(rest.properties || rest.type ? [rest] : [])];
+    return nullable(members.map(member => wrapUnion(getSchemaType(member, context, indent))).join(' & '));
+  }
+  const union = schema.oneOf ?? schema.anyOf;
+  if (Array.isArray(union)) return nullable(union.map((member: unknown) => getSchemaType(member, context, indent)).join(' | ') || 'never');
+  if (Array.isArray(schema.type)) return nullable(schema.type.map((type: string) => getSchemaType({ ...schema, type }, context, indent)).join(' | '));
+  const type = schema.type ?? (schema.properties || schema.additionalProperties ? 'object' : schema.items || schema.prefixItems ? 'array' : undefined);
+  switch (type) {
+    case 'string': return nullable(schema.format === 'binary' ? 'Blob' : 'string');
+    case 'integer':
+    case 'number': return nullable('number');
+    case 'boolean': return nullable('boolean');
+    case 'null': return 'null';
+    case 'array': {
+      if (Array.isArray(schema.prefixItems)) {
+        const items = schema.prefixItems.map((item: unknown) => getSchemaType(item, context, indent));
+        if (schema.items !== false) items.push(`...Array<${getSchemaType(schema.items, context, indent)}>`);
+        return nullable(`[${items.join(', ')}]`);
+      }
+      return nullable(`Array<${getSchemaType(schema.items, context, indent)}>`);
+    }
+    case 'object': {
+      const properties = Object.entries<any>(isObject(schema.properties) ? schema.properties : {});
+      const additional = schema.additionalProperties;
+      if (properties.length === 0) return nullable(additional === false ? 'Record<string, never>' : `Record<string, ${isObject(additional) ? getSchemaType(additional, context, indent) : 'unknown'}>`);
+      const required: string[] = Array.isArray(schema.required) ? schema.required : [];
+      const inner = `${indent}  `;
+      const lines = properties.map(([key, property]) => {
+        const description = dereference<any>(context.document, property)?.description;
+        return `${toDocComment([description], inner)}${inner}${toPropertyKey(key)}${required.includes(key) ? '' : '?'}: ${getSchemaType(property, context, inner)};`;
+      });
+      // declared properties must fit the index signature
+      if (additional === true || isObject(additional)) lines.push(`${inner}[key: string]: unknown;`);
+      return nullable(`{\n${lines.join('\n')}\n${indent}}`);
+    }
+    default: return 'unknown';
+  }
+}
+
+const getResponseBodyType = (rawResponse: unknown, context: GeneratorContext, indent: string) => {
+  const content: Record<string, any> = dereference<OpenAPI.Response>(context.document, rawResponse as OpenAPI.Response)?.content ?? {};
+  const mediaTypes = Object.keys(content);
+  if (mediaTypes.length === 0) return 'undefined';
+  const json = mediaTypes.find(mediaType => JSON_MEDIA_TYPE.test(getMediaType(mediaType)));
+  if (json) return getSchemaType(content[json]?.schema, context, indent);
+  return mediaTypes.every(mediaType => /^text\/|[/+]xml$/i.test(getMediaType(mediaType))) ? 'string' : 'Blob';
+}
+
+/**
+ * Renders the result union of an operation: `ApiSuccess` for `2xx` statuses, `ApiFailure` for the others and for the statuses the router answers with itself (other undeclared statuses throw, see `getDeclaredStatuses`).
+ */
+const getResultType = (specification: OpenAPI.Operator, context: GeneratorContext, indent: string) => {
+  const responses = Object.entries<unknown>(isObject(specification.responses) ? specification.responses : {});
+  const members = responses.map(([status, response]) => {
+    const body = getResponseBodyType(response, context, `${indent}  `);
+    const code = /^[1-5]\d\d$/.test(status) ? status : 'number';
+    const ok = /^2(\d\d|XX)$/i.test(status);
+    return `${ok ? 'ApiSuccess' : 'ApiFailure'}<${code}, ${body}>`;
+  });
+  if (members.length === 0) members.push('ApiSuccess<number, unknown>', 'ApiFailure<number, unknown>');
+  else members.push(...getRouterStatuses(specification, context.document).map(status => `ApiFailure<${status}, unknown>`));
+  return members.map(member => `\n${indent}  | ${member}`).join('');
+}
+
+/**
+ * Renders the request of an operation, returning whether any of it is required.
+ */
+const getRequestType = (specification: OpenAPI.Operator, context: GeneratorContext, indent: string) => {
+  const parameters = getOperationParameters(specification, context.document);
+  const inner = `${indent}  `;
+  const parts: string[] = [];
+  let required = false;
+  for (const [key, location] of [['params', 'path'], ['query', 'query'], ['headers', 'header']] as const) {
+    const declared = parameters.filter(parameter => parameter.in === location);
+    if (declared.length === 0) continue;
+    const isRequired = (parameter: OpenAPI.Parameter) => location === 'path' || parameter.required === true;
+    const partRequired = declared.some(isRequired);
+    required ||= partRequired;
+    const lines = declared.map(parameter => {
+      const schema = parameter.schema ?? Object.values<any>((parameter as { content?: Record<string, any> }).content ?? {})[0]?.schema;
+      return `${toDocComment([parameter.description], `${inner}  `)}${inner}  ${toPropertyKey(parameter.name)}${isRequired(parameter) ? '' : '?'}: ${getSchemaType(schema, context, `${inner}  `)};`;
+    });
+    parts.push(`${inner}${key}${partRequired ? '' : '?'}: {\n${lines.join('\n')}\n${inner}};`);
+  }
+  const requestBody = dereference<OpenAPI.RequestBody>(context.document, (specification as { requestBody?: OpenAPI.RequestBody }).requestBody);
+  const content: Record<string, any> = requestBody?.content ?? {};
+  const mediaTypes = Object.keys(content);
+  if (mediaTypes.length > 0) {
+    const json = mediaTypes.find(mediaType => JSON_MEDIA_TYPE.test(getMediaType(mediaType)));
+    const form = mediaTypes.find(mediaType => getMediaType(mediaType) === 'application/x-www-form-urlencoded');
+    const types = [
+      ...(json || form ? [getSchemaType(content[(json ?? form)!]?.schema, context, inner)] : []),
+      ...(mediaTypes.some(mediaType => getMediaType(mediaType) === 'multipart/form-data') ? ['FormData'] : []),
+      ...(mediaTypes.some(mediaType => !JSON_MEDIA_TYPE.test(getMediaType(mediaType)) && !['application/x-www-form-urlencoded', 'multipart/form-data'].includes(getMediaType(mediaType))) ? ['string', 'Blob'] : []),
+    ];
+    required ||= requestBody?.required === true;
+    parts.push(`${toDocComment([requestBody?.description], inner)}${inner}body${requestBody?.required === true ? '' : '?'}: ${types.join(' | ')};`);
+    if (mediaTypes.length > 1) parts.push(`${inner}contentType?: ${mediaTypes.map(mediaType => JSON.stringify(mediaType)).join(' | ')};`);
+  }
+  return { type: parts.length ? `{\n${parts.join('\n')}\n${indent}}` : '{}', required };
+}
+
+/**
+ * The statuses an operation declares, and the ones the router answers with itself, the client throws for the others so that they stay out of its result union (none when a `default` response, or no response, is declared).
+ */
+const getDeclaredStatuses = (specification: OpenAPI.Operator, document: any) => {
+  const statuses = Object.keys(isObject(specification.responses) ? specification.responses : {});
+  return statuses.length === 0 || statuses.includes('default') ? undefined : [...statuses, ...getRouterStatuses(specification, document)];
+}
+
+/**
+ * The `style`/`explode` of the query parameters that are not serialized with the defaults (`form`, exploded), the default content type of the body and the declared statuses.
+ */
+const getOperationInfo = (specification: OpenAPI.Operator, document: any) => {
+  const query: Record<string, { style?: string, explode?: boolean }> = {};
+  for (const parameter of getOperationParameters(specification, document).filter(parameter => parameter.in === 'query')) {
+    if ((parameter as { content?: unknown }).content) query[parameter.name] = { style: 'json' };
+    else if (getParameterStyle(parameter) !== 'form' || !getParameterExplode(parameter)) query[parameter.name] = { style: getParameterStyle(parameter), explode: getParameterExplode(parameter) };
+  }
+  const mediaTypes = Object.keys(dereference<OpenAPI.RequestBody>(document, (specification as { requestBody?: OpenAPI.RequestBody }).requestBody)?.content ?? {});
+  const contentType = mediaTypes.find(mediaType => JSON_MEDIA_TYPE.test(getMediaType(mediaType))) ?? mediaTypes[0];
+  const statuses = getDeclaredStatuses(specification, document);
+  return { ...(Object.keys(query).length ? { query } : {}), ...(contentType ? { contentType } : {}), ...(statuses ? { statuses } : {}) };
+}
+
+const RUNTIME = `type OperationInfo = { query?: Record<string, { style?: string; explode?: boolean }>; contentType?: string; statuses?: string[] };
+
+type RequestInput = { params?: Record<string, unknown>; query?: Record<string, unknown>; headers?: Record<string, unknown>; body?: unknown; contentType?: string };
+
+const serializeValue = (value: unknown): string =>
+  Array.isArray(value) ? value.map(serializeValue).join(",")
+  : value !== null && typeof value === "object" ? Object.entries(value).flat().map(serializeValue).join(",")
+  : String(value);
+
+const serializeQuery = (query: Record<string, unknown>, styles: NonNullable<OperationInfo["query"]> = {}) => {
+  const search = new URLSearchParams();
+  for (const [name, value] of Object.entries(query)) {
+    if (value === undefined) continue;
+    const { style = "form", explode = style === "form" } = styles[name] ?? {};
+    if (style === "json") search.append(name, JSON.stringify(value));
+    else if (Array.isArray(value)) {
+      if (explode) value.forEach(item => search.append(name, serializeValue(item)));
+      else search.append(name, value.map(serializeValue).join(style === "spaceDelimited" ? " " : style === "pipeDelimited" ? "|" : ","));
+    } else if (value !== null && typeof value === "object") {
+      const entries = Object.entries(value).filter(([, item]) => item !== undefined);
+      if (style === "deepObject") entries.forEach(([key, item]) => search.append(\`\${name}[\${key}]\`, serializeValue(item)));
+      else if (explode) entries.forEach(([key, item]) => search.append(key, serializeValue(item)));
+      else search.append(name, entries.flat().map(serializeValue).join(","));
+    } else search.append(name, serializeValue(value));
+  }
+  return search.toString();
+};
+
+const readBody = async (response: Response): Promise<unknown> => {
+  const mediaType = (response.headers.get("content-type") ?? "").split(";")[0].trim().toLowerCase();
+  if (mediaType && !/[/+]json$/.test(mediaType) && !mediaType.startsWith("text/") && !/[/+]xml$/.test(mediaType)) return response.blob();
+  const text = await response.text();
+  if (text === "") return undefined;
+  return /[/+]json$/.test(mediaType) ? JSON.parse(text) : text;
+};
+
+const isDeclaredStatus = (statuses: string[], status: number) =>
+  statuses.some(declared => declared === String(status) || declared.toUpperCase() === \`\${String(status)[0]}XX\`);`;
+
+/**
+ * @description
+ * - Generates a dependency-free TypeScript client for a document (e.g. `router.specification`), with a function per operation calling `fetch`.
+ * - Component schemas become exported types, requests are typed from the parameters and request body of their operation, and results are unions discriminated by `ok` and `status` (`ApiSuccess` for `2xx` responses, `ApiFailure` for the others).
+ * - Responses with a status the operation does not declare (and no `default` response) throw, rather than widening the result union, except for the `400`/`401`/`403`/`415` failures the router answers with itself.
+ * - Functions are named after the `operationId` (or the method and path), cookie parameters are left to the fetch implementation.
+ * @example
+ * ```typescript
+ * writeFileSync('client.ts', generateClient(router.specification));
+ * // import { createClient } from './client';
+ * // const api = createClient({ baseUrl: 'https://api.example.com' });
+ * // const result = await api.getUser({ params: { id: 1 } });
+ * // if (result.ok) result.data.name; else if (result.status === 404) result.error;
+ * ```
+ */
+export const generateClient = (document: any, { name = 'createClient' }: GenerateClientOptions = {}) => {
+  const { context, schemas } = createGeneratorContext(document, RESERVED_TYPE_NAMES);
+  const operationNames = new Set<string>();
+  const operations = getDocumentOperations(document).map(({ path, method, specification }) => {
+    const baseName = toCamelCase(specification.operationId ?? `${method} ${path.replace(/\{([^}]+)\}/g, 'by $1')}`);
+    let operationName = baseName;
+    for (let index = 2; operationNames.has(operationName); index++) operationName = `${baseName}${index}`;
+    operationNames.add(operationName);
+    return { path, method, specification, name: operationName };
+  });
+  const title = getDocumentTitle(document);
+  const server = document?.servers?.[0]?.url;
+  const output = [
+    `// Generated by openapi-fastify from ${title}, do not edit by hand.`,
+    '',
+    'export type ClientOptions = {',
+    `  /** the URL the operation paths are resolved against${server ? ` (default: ${JSON.stringify(server)})` : ''} */`,
+    '  baseUrl?: string;',
+    '  /** the fetch implementation (default: the global `fetch`) */',
+    '  fetch?: typeof fetch;',
+    '  /** the headers sent with every request, e.g. an `authorization` header */',
+    '  headers?: HeadersInit | (() => HeadersInit | Promise<HeadersInit>);',
+    '};',
+    '',
+    '/** the options of a single request, e.g. an abort `signal` */',
+    'export type RequestOptions = Omit<RequestInit, "method" | "body">;',
+    '',
+    'export type ApiSuccess<Status extends number, Data> = { ok: true; status: Status; data: Data; error?: undefined; response: Response };',
+    '',
+    'export type ApiFailure<Status extends number, Failure> = { ok: false; status: Status; data?: undefined; error: Failure; response: Response };',
+    '',
+    ...schemas.flatMap(([schemaName, schema]) => [
+      `${toDocComment([schema?.description], '')}export type ${context.schemaNames.get(getSchemaRef(schemaName))} = ${getSchemaType(schema, context)};`,
+      ''
+    ]),
+    'export interface Operations {',
+    ...operations.map(({ path, method, specification, name: operationName }) => [
+      `${toDocComment([`${method.toUpperCase()} ${path}`], '  ')}  ${operationName}: {`,
+      `    request: ${getRequestType(specification, context, '    ').type};`,
+      `    result:${getResultType(specification, context, '    ')};`,
+      '  };'
+    ].join('\n')),
+    '}',
+    '',
+    RUNTIME,
+    '',
+    `export const ${name} = (options: ClientOptions = {}) => {`,
+    `  const baseUrl = (options.baseUrl ?? ${JSON.stringify(server ?? '')}).replace(/\\/+$/, "");`,
+    '  const request = async (method: string, path: string, operation: OperationInfo, input: RequestInput = {}, init: RequestOptions = {}): Promise<any> => {',
+    '    const url = baseUrl + path.replace(/\\{([^}]+)\\}/g, (_, name: string) => {',
+    '      if (input.params?.[name] === undefined) throw new Error(`Missing path parameter "${name}" (${method} ${path})`);',
+    '      return encodeURIComponent(serializeValue(input.params[name]));',
+    '    });',
+    '    const query = serializeQuery(input.query ?? {}, operation.query);',
+    '    const headers = new Headers(typeof options.headers === "function" ? await options.headers() : options.headers);',
+    '    for (const [name, value] of Object.entries(input.headers ?? {})) if (value !== undefined) headers.set(name, serializeValue(value));',
+    '    new Headers(init.headers).forEach((value, name) => headers.set(name, value));',
+    '    let body: BodyInit | undefined;',
+    '    if (input.body !== undefined) {',
+    '      const contentType = input.contentType ?? operation.contentType ?? "application/json";',
+    '      const mediaType = contentType.split(";")[0].trim().toLowerCase();',
+    '      // FormData bodies set their own content type (with the multipart boundary)',
+    '      if (typeof FormData === "undefined" || !(input.body instanceof FormData)) headers.set("content-type", contentType);',
+    '      if (/[/+]json$/.test(mediaType)) body = JSON.stringify(input.body);',
+    '      else if (mediaType === "application/x-www-form-urlencoded" && input.body !== null && typeof input.body === "object" && !(input.body instanceof URLSearchParams)) body = serializeQuery(input.body as Record<string, unknown>);',
+    '      else body = input.body as BodyInit;',
+    '    }',
+    '    const response = await (options.fetch ?? fetch)(query ? `${url}?${query}` : url, { ...init, method, headers, body });',
+    '    if (operation.statuses && !isDeclaredStatus(operation.statuses, response.status)) throw new Error(`Undeclared response status ${response.status} (${method} ${path})`);',
+    '    const data = await readBody(response);',
+    '    return response.ok',
+    '      ? { ok: true, status: response.status, data, response }',
+    '      : { ok: false, status: response.status, error: data, response };',
+    '  };',
+    '  return {',
+    ...operations.map(({ path, method, specification, name: operationName }) => {
+      const { required } = getRequestType(specification, context, '');
+      const docs = toDocComment([specification.summary, specification.description, specification.deprecated ? '@deprecated' : undefined], '    ');
+      return `${docs}    ${operationName}: (input: Operations[${JSON.stringify(operationName)}]["request"]${required ? '' : ' = {}'}, init?: RequestOptions): Promise<Operations[${JSON.stringify(operationName)}]["result"]> =>\n      request(${JSON.stringify(method.toUpperCase())}, ${JSON.stringify(path)}, ${toLiteral(getOperationInfo(specification, document))}, input, init),`;
+    }),
+    '  };',
+    '};',
+    '',
+    `export type Client = ReturnType<typeof ${name}>;`,
+    ''
+  ];
+  return output.join('\n');
+}
+
+/**
+ * Whether a schema renders as a plain object type, which can be declared as an interface.
+ */
+const isInterfaceSchema = (schema: any) =>
+  isObject(schema) && isObject(schema.properties) && Object.keys(schema.properties).length > 0
+  && (schema.type === 'object' || schema.type === undefined) && schema.nullable !== true
+  && !['$ref', 'const', 'enum', 'allOf', 'oneOf', 'anyOf'].some(key => key in schema);
+
+/**
+ * @description
+ * - Generates a TypeScript module exporting a document (e.g. parsed from a YAML file) `as const`, so `FromSpec` can infer the request and reply types of its operations.
+ * - Component schemas also become named types: interfaces for object schemas, type aliases for the others.
+ * @example
+ * ```typescript
+ * writeFileSync('src/specification.ts', generateSpecModule(parseYaml(readFileSync('openapi.yaml', 'utf8'))));
+ * // import specification, { Pet } from './specification';
+ * // const router = new OpenApiRouter(app, specification);
+ * ```
+ */
+export const generateSpecModule = (document: any, { name = 'specification' }: GenerateSpecModuleOptions = {}) => {
+  const { context, schemas } = createGeneratorContext(document, GLOBAL_TYPE_NAMES);
+  const output = [
+    `// Generated by openapi-fastify from ${getDocumentTitle(document)}, do not edit by hand.`,
+    '',
+    ...schemas.flatMap(([schemaName, schema]) => {
+      const typeName = context.schemaNames.get(getSchemaRef(schemaName));
+      const type = getSchemaType(schema, context);
+      return [
+        `${toDocComment([schema?.description], '')}${isInterfaceSchema(schema) ? `export interface ${typeName} ${type}` : `export type ${typeName} = ${type};`}`,
+        ''
+      ];
+    }),
+    `export const ${name} = ${toDocumentLiteral(document)} as const;`,
+    '',
+    `export default ${name};`,
+    ''
+  ];
+  return output.join('\n');
+}
@@ -0,0 +1,72 @@
+import { OpenAPI } from "./types";
+import { LintConfig, LintLevel, LintRuleName, LintViolation, OperatorName } from "./types/router.types";
+import { dereference, isObject } from "./utils";
+import { getOperationParameters } from "./parameters";
+
+export const LINT_RULE_DEFAULTS: Record<LintRuleName, LintLevel> = {
+  'path-parameters': 'warn',
+  'unique-operation-ids': 'warn',
+  'responses': 'warn',
+  'resolved-refs': 'warn',
+  'consistent-path-parameters': 'warn',
+}
+
+export const getLintConfig = (lint: LintConfig = true): { strict: boolean, rules: Record<LintRuleName, LintLevel> } => {
+  if (lint === false) return { strict: false, rules: Object.fromEntries(Object.keys(LINT_RULE_DEFAULTS).map(rule => [rule, 'off'])) as Record<LintRuleName, LintLevel> };
+  if (lint === true) return { strict: false, rules: { ...LINT_RULE_DEFAULTS } };
+  return { strict: lint.strict ?? false, rules: { ...LINT_RULE_DEFAULTS, ...lint.rules } };
+}
+
+const getPathParameterNames = (path: string) => [...path.matchAll(/:([a-zA-Z_][a-zA-Z0-9_]*)/g)].map(([, name]) => name);
+
+/**
+ * @description
+ * - Returns the `$ref`s of a value (e.g. an operation specification) that do not resolve in the document (local refs only).
+ */
+const getUnresolvedRefs = (value: any, document: any): string[] => {
+  if (Array.isArray(value)) return value.flatMap(item => getUnresolvedRefs(item, document));
+  if (!isObject(value)) return [];
+  if (typeof value.$ref === 'string') return value.$ref.startsWith('#/') && dereference(document, value) === undefined ? [value.$ref] : [];
+  return Object.values(value).flatMap(item => getUnresolvedRefs(item, document));
+}
+
+/**
+ * @description
+ * - Runs the lint rules over the registered operations, returning the violations of the rules that are not `off`.
+ * @example
+ * ```typescript
+ * lintOperations([{ method: 'get', path: '/users/:id', specification: { responses: {} } }], { rules: LINT_RULE_DEFAULTS })
+ * // [{ rule: 'path-parameters', level: 'warn', message: 'Path parameter "id" is not declared', method: 'get', path: '/users/:id' }, { rule: 'responses', ... }]
+ * ```
+ */
+export const lintOperations = (operations: { method: OperatorName, path: string, specification: OpenAPI.Operator }[], { document, unresolvedRefs = [], rules }: { document?: any, unresolvedRefs?: string[], rules: Record<LintRuleName, LintLevel> }): LintViolation[] => {
+  const violations: LintViolation[] = [];
+  const report = (rule: LintRuleName, message: string, operation?: { method: OperatorName, path: string }) => {
+    const level = rules[rule];
+    if (level === 'off') return;
+    violations.push({ rule, level, message, ...(operation ? { method: operation.method, path: operation.path } : {}) });
+  }
+  const operationIds = new Map<string, { method: OperatorName, path: string }>();
+  const pathParameterNames = new Map<string, string>();
+  for (const operation of operations) {
+    const { method, path, specification } = operation;
+    const declared = getOperationParameters(specification, document).filter(parameter => parameter.in === 'path').map(parameter => parameter.name);
+    const names = getPathParameterNames(path);
+    for (const name of names.filter(name => !declared.includes(name))) report('path-parameters', `Path parameter "${name}" is not declared`, operation);
+    for (const name of declared.filter(name => !names.includes(name))) report('path-parameters', `Path parameter "${name}" is declared but not in the path`, operation);
+    const operationId = (specification as { operationId?: string }).operationId;
+    const first = operationId ? operationIds.get(operationId) : undefined;
+    if (operationId && first) report('unique-operation-ids', `operationId "${operationId}" is already used by ${first.method.toUpperCase()} ${first.path}`, operation);
+    else if (operationId) operationIds.set(operationId, operation);
+    if (!isObject(specification.responses) || Object.keys(specification.responses).length === 0) report('responses', 'No responses are declared', operation);
+    for (const ref of new Set(getUnresolvedRefs(specification, document))) report('resolved-refs', `"${ref}" does not resolve in the document`, operation);
+    const shape = path.replace(/:([a-zA-Z_][a-zA-Z0-9_]*)/g, ':');
+    const other = pathParameterNames.get(shape);
+    if (other === undefined) pathParameterNames.set(shape, path);
+    else if (other !== path) report('consistent-path-parameters', `Path parameters differ from ${other} (${getPathParameterNames(other).join(', ')})`, operation);
+  }
+  for (const ref of new Set(unresolvedRefs)) report('resolved-refs', `ref("${ref}") does not resolve in the document`);
+  return violations;
+}
+
+export const formatLintViolation = ({ rule, message, method, path }: LintViolation) => `${method ? `${method.toUpperCase()} ${path}: ` : ''}${message} (${rule})`;
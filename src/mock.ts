@@ -0,0 +1,141 @@
+import { OpenAPI } from "./types";
+import { MockConfig, MockResponse } from "./types/router.types";
+import { dereference, getResponseStatusKey, isObject, normalizeMediaType } from "./utils";
+
+export const MOCK_DEFAULTS = {
+  statusHeader: 'x-mock-status',
+  statusQuery: '__status',
+  exampleHeader: 'x-mock-example',
+  exampleQuery: '__example',
+} as const;
+
+export const getMockConfig = (mock: MockConfig = true): Required<Exclude<MockConfig, boolean>> => ({
+  ...MOCK_DEFAULTS,
+  ...(typeof mock === 'object' ? mock : {}),
+});
+
+const MOCK_STRING_FORMATS: Record<string, string> = {
+  'date-time': '2024-01-01T00:00:00.000Z',
+  'date': '2024-01-01',
+  'time': '00:00:00Z',
+  'duration': 'P1D',
+  'email': 'user@example.com',
+  'idn-email': 'user@example.com',
+  'hostname': 'example.com',
+  'idn-hostname': 'example.com',
+  'ipv4': '192.0.2.1',
+  'ipv6': '2001:db8::1',
+  'uri': 'https://example.com',
+  'url': 'https://example.com',
+  'iri': 'https://example.com',
+  'uri-reference': '/example',
+  'uuid': '3fa85f64-5717-4562-b3fc-2c963f66afa6',
+  'byte': 'ZXhhbXBsZQ==',
+  'binary': '',
+  'password': 'password',
+  'regex': '.*',
+};
+
+const getMockNumber = (schema: Record<string, any>) => {
+  const integer = schema.type === 'integer';
+  const step = schema.multipleOf ?? (integer ? 1 : 0.5);
+  let value = typeof schema.minimum === 'number' ? schema.minimum : 0;
+  // OpenAPI 3.0 `exclusiveMinimum` is a boolean modifier of `minimum`, 3.1 (JSON Schema) uses a number
+  if (typeof schema.exclusiveMinimum === 'number') value = Math.max(value, schema.exclusiveMinimum + step);
+  else if (schema.exclusiveMinimum === true && typeof schema.minimum === 'number') value = schema.minimum + step;
+  if (schema.multipleOf) value = Math.ceil(value / schema.multipleOf) * schema.multipleOf;
+  if (typeof schema.maximum === 'number' && value > schema.maximum) value = schema.maximum;
+  return integer ? Math.ceil(value) : value;
+}
+
+const getMockString = (schema: Record<string, any>) => {
+  const value = MOCK_STRING_FORMATS[schema.format] ?? 'string';
+  if (typeof schema.minLength === 'number' && value.length < schema.minLength) return value.padEnd(schema.minLength, value || 'x');
+  if (typeof schema.maxLength === 'number' && value.length > schema.maxLength) return value.slice(0, schema.maxLength);
+  return value;
+}
+
+/**
+ * @description
+ * - Generates a value for a schema: its `example`, `default`, `const` or first `enum` value if any, otherwise a value of its type that honors its `format`, bounds and array sizes.
+ * - Every property of objects is generated, `oneOf`/`anyOf` use their first member, and recursion stops (with `undefined`) after a few levels of `$ref`s.
+ * @example
+ * ```typescript
+ * getMockValue({ type: 'object', properties: { id: { type: 'integer', minimum: 1 }, email: { type: 'string', format: 'email' }, tags: { type: 'array', items: { enum: ['a', 'b'] }, minItems: 2 } } })
+ * // { id: 1, email: 'user@example.com', tags: ['a', 'a'] }
+ * ```
+ */
+export const getMockValue = (rawSchema: any, document?: any, depth = 0): any => {
+  if (depth > 8) return undefined;
+  const schema = dereference<Record<string, any>>(document, rawSchema);
+  if (!isObject(schema)) return undefined;
+  if (schema.example !== undefined) return structuredClone(schema.example);
+  if (Array.isArray(schema.examples) && schema.examples.length > 0) return structuredClone(schema.examples[0]);
+  if (schema.default !== undefined) return structuredClone(schema.default);
+  if (schema.const !== undefined) return structuredClone(schema.const);
+  if (Array.isArray(schema.enum) && schema.enum.length > 0) return structuredClone(schema.enum[0]);
+  if (Array.isArray(schema.allOf)) {
+    const values = schema.allOf.map((member: any) => getMockValue(member, document, depth + 1));
+    return values.every(isObject) ? Object.assign({}, ...values) : values[0];
+  }
+  const members = schema.oneOf ?? schema.anyOf;
+  if (Array.isArray(members) && members.length > 0) return getMockValue(members[0], document, depth + 1);
+  const type = Array.isArray(schema.type) ? schema.type.find((type: string) => type !== 'null') ?? 'null' : schema.type ?? (schema.properties ? 'object' : schema.items ? 'array' : undefined);
+  switch (type) {
+    case 'object': {
+      const result: Record<string, any> = {};
+      for (const [name, property] of Object.entries(schema.properties ?? {})) {
+        const value = getMockValue(property, document, depth + 1);
+        if (value !== undefined) result[name] = value;
+      }
+      return result;
+    }
+    case 'array': {
+      const length = Math.min(Math.max(schema.minItems ?? 1, 1), schema.maxItems ?? Infinity);
+      const item = getMockValue(schema.items, document, depth + 1);
+      return item === undefined ? [] : Array.from({ length }, () => structuredClone(item));
+    }
+    case 'string': return getMockString(schema);
+    case 'integer':
+    case 'number': return getMockNumber(schema);
+    case 'boolean': return true;
+    case 'null': return null;
+    default: return undefined;
+  }
+}
+
+/**
+ * @description
+ * - Builds a mocked response of an operation: the requested status (exact, `2XX`-style or `default`, otherwise the first success response), and the requested named example of its media type, its `example`, its first `examples` entry or a value generated from its schema.
+ * - JSON media types are preferred when the response declares several.
+ * @example
+ * ```typescript
+ * getMockResponse({ responses: { 200: { description: 'OK', content: { 'application/json': { schema: { type: 'object', properties: { id: { type: 'integer' } } } } } } } })
+ * // { statusCode: 200, contentType: 'application/json', body: { id: 0 } }
+ * ```
+ */
+export const getMockResponse = (specification: OpenAPI.Operator, document?: any, { status, example }: { status?: string, example?: string } = {}): MockResponse => {
+  const responses: Record<string, any> = isObject(specification.responses) ? specification.responses : {};
+  const statuses = Object.keys(responses);
+  const key = (status ? statuses.find(candidate => candidate.toUpperCase() === status.toUpperCase()) ?? getResponseStatusKey(status, statuses) : undefined)
+    ?? [...statuses].sort().find(candidate => /^2/.test(candidate))
+    ?? statuses.find(candidate => candidate === 'default')
+    ?? statuses[0];
+  const statusCode = key && /^[1-5]\d\d$/.test(key) ? Number(key)
+    : status && /^[1-5]\d\d$/.test(status) ? Number(status)
+    : key && /^[1-5]XX$/i.test(key) ? Number(key[0]) * 100
+    : 200;
+  const response = key ? dereference<OpenAPI.Response>(document, responses[key]) : undefined;
+  const content: Record<string, any> = response?.content ?? {};
+  const mediaTypes = Object.keys(content);
+  const contentType = mediaTypes.find(mediaType => /[/+]json$/i.test(normalizeMediaType(mediaType))) ?? mediaTypes[0];
+  if (!contentType) return { statusCode };
+  const media = content[contentType] ?? {};
+  const examples: Record<string, any> = isObject(media.examples) ? media.examples : {};
+  const named = example !== undefined ? examples[example] : undefined;
+  if (named !== undefined) return { statusCode, contentType, body: structuredClone(dereference<any>(document, named)?.value) };
+  if (media.example !== undefined) return { statusCode, contentType, body: structuredClone(media.example) };
+  const first = Object.values(examples)[0];
+  if (first !== undefined) return { statusCode, contentType, body: structuredClone(dereference<any>(document, first)?.value) };
+  return { statusCode, contentType, body: getMockValue(media.schema, document) };
+}
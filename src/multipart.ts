@@ -0,0 +1,159 @@
+import { OpenAPI } from "./types";
+import { Readable } from "stream";
+import { MultipartFile, MultipartPart } from "./types/router.types";
+import { dereference, getMediaTypeMatch, isObject } from "./utils";
+import { coerceParameterValue, decode, deserializeParameter, getSchemaType, parseRawQuery } from "./parameters";
+
+export const MULTIPART_MEDIA_TYPE = 'multipart/form-data';
+
+const httpError = (statusCode: number, message: string) => Object.assign(new Error(`[openapi-fastify] ${message}`), { statusCode });
+
+const parsePartHeaders = (raw: string) => {
+  const headers: Record<string, string> = {};
+  for (const line of raw.split('\r\n')) {
+    const index = line.indexOf(':');
+    if (index > 0) headers[line.slice(0, index).trim().toLowerCase()] = line.slice(index + 1).trim();
+  }
+  return headers;
+}
+
+const getHeaderParameter = (header: string | undefined, name: string) => {
+  const match = header?.match(new RegExp(`(?:^|;)\\s*${name}=(?:"((?:[^"\\\\]|\\\\.)*)"|([^;]*))`, 'i'));
+  return match ? (match[1]?.replace(/\\(.)/g, '$1') ?? match[2].trim()) : undefined;
+}
+
+/**
+ * @description
+ * - Splits a (buffered) `multipart/form-data` body into its parts, using the boundary of the content type.
+ * - Throws (with a `400` status code) if the body is malformed.
+ */
+export const parseMultipart = (body: Buffer, contentType: string): MultipartPart[] => {
+  const boundary = getHeaderParameter(contentType, 'boundary');
+  if (!boundary) throw httpError(400, 'Multipart boundary missing from the content type');
+  const delimiter = Buffer.from(`--${boundary}`);
+  const separator = Buffer.from(`\r\n--${boundary}`);
+  const parts: MultipartPart[] = [];
+  let start = body.indexOf(delimiter);
+  if (start === -1) throw httpError(400, 'Malformed multipart body');
+  start += delimiter.length;
+  while (body.subarray(start, start + 2).toString() !== '--') {
+    if (body.subarray(start, start + 2).toString() === '\r\n') start += 2;
+    const end = body.indexOf(separator, start);
+    const headerEnd = body.indexOf('\r\n\r\n', start);
+    if (end === -1 || headerEnd === -1 || headerEnd > end) throw httpError(400, 'Malformed multipart body');
+    const headers = parsePartHeaders(body.subarray(start, headerEnd).toString('utf8'));
+    const name = getHeaderParameter(headers['content-disposition'], 'name');
+    if (name === undefined) throw httpError(400, 'Multipart part without a name');
+    parts.push({ name, filename: getHeaderParameter(headers['content-disposition'], 'filename'), contentType: headers['content-type'], headers, data: body.subarray(headerEnd + 4, end) });
+    start = end + separator.length;
+  }
+  return parts;
+}
+
+/**
+ * @description
+ * - Whether a schema describes binary content (`format: binary`, or `contentMediaType` without `contentEncoding` in OpenAPI 3.1).
+ */
+export const isBinarySchema = (schema: any) => isObject(schema) && (schema.format === 'binary' || (typeof schema.contentMediaType === 'string' && !schema.contentEncoding));
+
+const getPartContentType = (schema: any) => isBinarySchema(schema) ? 'application/octet-stream' : getSchemaType(schema) === 'object' || getSchemaType(schema) === 'array' ? 'application/json' : 'text/plain';
+
+const toMultipartValue = (part: MultipartPart, schema: any, encoding: { contentType?: string } | undefined, document?: any) => {
+  const allowed = encoding?.contentType?.split(',').map(contentType => contentType.trim()).filter(Boolean);
+  if (allowed?.length && part.contentType && !getMediaTypeMatch(part.contentType, allowed)) {
+    throw httpError(415, `Unsupported content type ${part.contentType} for multipart field "${part.name}" (expected ${allowed.join(', ')})`);
+  }
+  if (isBinarySchema(schema) || (part.filename !== undefined && !schema)) {
+    if (typeof schema?.maxLength === 'number' && part.data.length > schema.maxLength) {
+      throw httpError(413, `Multipart file "${part.name}" exceeds ${schema.maxLength} bytes`);
+    }
+    const data = part.data;
+    return { fieldname: part.name, filename: part.filename, mimetype: part.contentType ?? 'application/octet-stream', size: data.length, data, stream: () => Readable.from(data) } satisfies MultipartFile;
+  }
+  const text = part.data.toString('utf8');
+  if (getMediaTypeMatch(part.contentType ?? allowed?.[0] ?? getPartContentType(schema), ['application/json'])) {
+    try {
+      return JSON.parse(text);
+    } catch {
+      throw httpError(400, `Multipart field "${part.name}" is not valid JSON`);
+    }
+  }
+  return coerceParameterValue(schema, text, { document }).value;
+}
+
+/**
+ * @description
+ * - Builds the request body of a `multipart/form-data` request from its parts, according to the media type's `schema` and `encoding`.
+ * - Binary properties become `MultipartFile`s (limited to `maxLength` bytes), JSON parts are parsed, other fields are coerced to their schema types and repeated or array fields are collected into arrays.
+ * - Throws (with a `413`/`415`/`400` status code) for oversized files, part content types the `encoding` does not allow and invalid JSON.
+ */
+export const getMultipartBody = (parts: MultipartPart[], media: { schema?: any, encoding?: Record<string, { contentType?: string }> } | undefined, document?: any) => {
+  const schema = dereference<any>(document, media?.schema);
+  const body: Record<string, any> = {};
+  for (const part of parts) {
+    const propertySchema = dereference<any>(document, schema?.properties?.[part.name]);
+    const isArray = getSchemaType(propertySchema) === 'array';
+    const value = toMultipartValue(part, isArray ? dereference(document, propertySchema.items) : propertySchema, media?.encoding?.[part.name], document);
+    if (isArray) body[part.name] = [...body[part.name] ?? [], value];
+    else if (part.name in body) body[part.name] = [...[].concat(body[part.name]), value];
+    else body[part.name] = value;
+  }
+  return body;
+}
+
+export const URLENCODED_MEDIA_TYPE = 'application/x-www-form-urlencoded';
+
+/**
+ * @description
+ * - Builds the request body of an `application/x-www-form-urlencoded` request according to the media type's `schema` and `encoding`.
+ * - Declared properties are deserialized like query parameters (honoring the `style`, `explode` and `allowReserved` of their encoding) and coerced to their schema types, properties encoded as `application/json` are parsed.
+ * - Undeclared fields are kept as strings (or arrays of strings, when repeated), so they can be validated against `additionalProperties`.
+ * @example
+ * ```typescript
+ * getUrlEncodedBody('age=42&tags=a,b', { schema: { type: 'object', properties: { age: { type: 'integer' }, tags: { type: 'array' } } }, encoding: { tags: { explode: false } } }) // { age: 42, tags: ['a', 'b'] }
+ * ```
+ */
+export const getUrlEncodedBody = (body: string, media: { schema?: any, encoding?: Record<string, { contentType?: string, style?: string, explode?: boolean, allowReserved?: boolean }> } | undefined, document?: any) => {
+  const raw = parseRawQuery(body);
+  const source: Record<string, string | string[]> = Object.fromEntries(Object.entries(raw).map(([key, values]) => [key, values.length === 1 ? decode(values[0]) : values.map(decode)]));
+  const schema = dereference<any>(document, media?.schema);
+  const properties: Record<string, any> = isObject(schema?.properties) ? schema.properties : {};
+  const result: Record<string, any> = {};
+  for (const [name, rawProperty] of Object.entries(properties)) {
+    const property = dereference<any>(document, rawProperty);
+    const encoding = media?.encoding?.[name];
+    if (encoding?.contentType && getMediaTypeMatch(encoding.contentType, ['application/json'])) {
+      if (typeof source[name] !== 'string') continue;
+      try {
+        result[name] = JSON.parse(source[name] as string);
+      } catch {
+        throw httpError(400, `Form field "${name}" is not valid JSON`);
+      }
+      continue;
+    }
+    const value = deserializeParameter({ name, in: 'query', style: encoding?.style, explode: encoding?.explode, allowReserved: encoding?.allowReserved } as OpenAPI.Parameter, property, source, raw);
+    if (value !== undefined) result[name] = coerceParameterValue(property, value, { document }).value;
+  }
+  for (const [key, value] of Object.entries(source)) {
+    // `name[...]` keys belong to deepObject encoded properties
+    if (key in properties || key in result || Object.keys(properties).some(name => key.startsWith(`${name}[`))) continue;
+    result[key] = value;
+  }
+  return result;
+}
+
+/**
+ * @description
+ * - Returns a copy of a `multipart/form-data` schema whose binary properties accept any value, since they are validated (and size limited) while parsing.
+ */
+export const toMultipartSchema = (schema: any, document?: any) => {
+  const resolved = dereference<any>(document, schema);
+  if (!isObject(resolved?.properties)) return schema;
+  const properties = Object.fromEntries(Object.entries(resolved.properties).map(([name, rawProperty]) => {
+    const property = dereference<any>(document, rawProperty);
+    if (isBinarySchema(property)) return [name, {}];
+    if (getSchemaType(property) === 'array' && isBinarySchema(dereference(document, property.items))) return [name, { ...property, items: {} }];
+    return [name, rawProperty];
+  }));
+  return { ...resolved, properties };
+}
@@ -0,0 +1,285 @@
+import { FastifyRequest } from "fastify";
+import { OpenAPI } from "./types";
+import { OperationValidators, ParameterError } from "./types/router.types";
+import { debugGroup, debugLog, debugLogEnd, dereference, isObject } from "./utils";
+
+const PARAMETER_LOCATIONS = {
+  query: 'query',
+  path: 'params',
+  header: 'headers',
+  cookie: 'cookies',
+} as const;
+
+// header parameters with these names are ignored (https://spec.openapis.org/oas/v3.0.3#fixed-fields-9)
+const IGNORED_HEADER_PARAMETERS = ['accept', 'content-type', 'authorization'];
+
+export const getParameterKey = (parameter: { in: string, name: string }) => `${parameter.in}:${parameter.in === 'header' ? parameter.name.toLowerCase() : parameter.name}`;
+
+/**
+ * @description
+ * - Returns the (dereferenced) path, query, header and cookie parameters of an operation.
+ */
+export const getOperationParameters = (specification: OpenAPI.Operator, document?: any): OpenAPI.Parameter[] => {
+  const parameters = ((specification as any)?.parameters ?? []) as Array<OpenAPI.Parameter | { $ref: string }>;
+  return parameters
+    .map(parameter => dereference<OpenAPI.Parameter>(document, parameter))
+    .filter((parameter): parameter is OpenAPI.Parameter => !!parameter && parameter.in in PARAMETER_LOCATIONS && !(parameter.in === 'header' && IGNORED_HEADER_PARAMETERS.includes(parameter.name.toLowerCase())));
+}
+
+/**
+ * @description
+ * - Parses a `Cookie` header into a record of (decoded) cookie values.
+ * @example
+ * ```typescript
+ * parseCookieHeader('session=abc; theme="dark"') // { session: 'abc', theme: 'dark' }
+ * ```
+ */
+export const parseCookieHeader = (header?: string | string[]): Record<string, string> => {
+  const result: Record<string, string> = {};
+  for (const pair of ([] as string[]).concat(header ?? []).join(';').split(';')) {
+    const index = pair.indexOf('=');
+    if (index === -1) continue;
+    const name = pair.slice(0, index).trim();
+    if (!name || name in result) continue;
+    let value = pair.slice(index + 1).trim();
+    if (value.startsWith('"') && value.endsWith('"') && value.length > 1) value = value.slice(1, -1);
+    try {
+      result[name] = decodeURIComponent(value);
+    } catch {
+      result[name] = value;
+    }
+  }
+  return result;
+}
+
+export const getSchemaType = (schema: any): string | undefined => {
+  const type = Array.isArray(schema?.type) ? schema.type.find((t: string) => t !== 'null') : schema?.type;
+  if (type) return type;
+  if (schema?.items || schema?.prefixItems) return 'array';
+  if (schema?.properties) return 'object';
+  return undefined;
+}
+
+/**
+ * @description
+ * - Coerces a (deserialized) parameter value to the type of its schema, recursing into array items and object properties.
+ */
+export const coerceParameterValue = (schema: any, value: any, { document, path = '' }: { document?: any, path?: string } = {}): { value: any, message?: string } => {
+  schema = dereference(document, schema);
+  const type = getSchemaType(schema);
+  const fail = (message: string) => ({ value, message: `${path ? `${path} ` : ''}${message}` });
+  if (type === 'array' && Array.isArray(value)) {
+    const items = value.map((item, index) => coerceParameterValue(schema?.prefixItems?.[index] ?? schema?.items, item, { document, path: `${path}/${index}` }));
+    return { value: items.map(item => item.value), message: items.find(item => item.message)?.message };
+  }
+  if (type === 'object' && isObject(value)) {
+    const entries = Object.entries(value).map(([key, item]) => [key, coerceParameterValue(schema?.properties?.[key] ?? (isObject(schema?.additionalProperties) ? schema.additionalProperties : undefined), item, { document, path: `${path}/${key}` })] as const);
+    return { value: Object.fromEntries(entries.map(([key, item]) => [key, item.value])), message: entries.find(([, item]) => item.message)?.[1].message };
+  }
+  if (typeof value !== 'string') return { value };
+  if (type === 'integer' || type === 'number') {
+    const parsed = value.trim() === '' ? NaN : Number(value);
+    if (Number.isNaN(parsed) || (type === 'integer' && !Number.isInteger(parsed))) return fail(`must be ${type}`);
+    return { value: parsed };
+  }
+  if (type === 'boolean') {
+    if (value === 'true') return { value: true };
+    if (value === 'false') return { value: false };
+    return fail('must be boolean');
+  }
+  if (type === 'null' && value === '') return { value: null };
+  return { value };
+}
+
+export const QUERY_DELIMITERS: Record<string, string> = {
+  form: ',',
+  spaceDelimited: ' ',
+  pipeDelimited: '|',
+};
+
+export const getParameterStyle = (parameter: Pick<OpenAPI.Parameter, 'in' | 'style'>) => parameter.style ?? (parameter.in === 'query' || parameter.in === 'cookie' ? 'form' : 'simple');
+
+export const getParameterExplode = (parameter: Pick<OpenAPI.Parameter, 'in' | 'style' | 'explode'>) => parameter.explode ?? getParameterStyle(parameter) === 'form';
+
+export const decode = (value: string) => {
+  try {
+    return decodeURIComponent(value.replace(/\+/g, ' '));
+  } catch {
+    return value;
+  }
+}
+
+/**
+ * @description
+ * - Parses a query string (or `application/x-www-form-urlencoded` body) into a record of raw (undecoded) values, keyed by decoded name.
+ */
+export const parseRawQuery = (query: string): Record<string, string[]> => {
+  const result: Record<string, string[]> = {};
+  for (const pair of query.split('&')) {
+    if (!pair) continue;
+    const index = pair.indexOf('=');
+    const key = decode(index === -1 ? pair : pair.slice(0, index));
+    (result[key] ??= []).push(index === -1 ? '' : pair.slice(index + 1));
+  }
+  return result;
+}
+
+/**
+ * @description
+ * - Parses the undecoded query string of a request into a record of raw values (used for `allowReserved` parameters).
+ */
+const getRawQuery = (request: FastifyRequest): Record<string, string[]> => {
+  const url = request.raw?.url ?? (request as any).url;
+  if (typeof url !== 'string' || !url.includes('?')) return {};
+  return parseRawQuery(url.slice(url.indexOf('?') + 1));
+}
+
+const toPairs = (values: string[], explode: boolean) => explode
+  ? Object.fromEntries(values.map(value => [value.slice(0, value.includes('=') ? value.indexOf('=') : value.length), value.includes('=') ? value.slice(value.indexOf('=') + 1) : '']))
+  : Object.fromEntries(Array.from({ length: Math.ceil(values.length / 2) }, (_, index) => [values[index * 2], values[index * 2 + 1] ?? '']));
+
+/**
+ * @description
+ * - Deserializes a parameter value according to its `style` and `explode` (https://spec.openapis.org/oas/v3.0.3#style-values).
+ * - Returns `undefined` if the parameter is not present in the source.
+ * @example
+ * ```typescript
+ * deserializeParameter({ name: 'ids', in: 'query', explode: false }, { type: 'array' }, { ids: '1,2,3' }) // ['1', '2', '3']
+ * deserializeParameter({ name: 'filter', in: 'query', style: 'deepObject' }, { type: 'object' }, { 'filter[status]': 'open' }) // { status: 'open' }
+ * deserializeParameter({ name: 'id', in: 'path', style: 'matrix' }, { type: 'integer' }, { id: ';id=5' }) // '5'
+ * ```
+ */
+export const deserializeParameter = (parameter: OpenAPI.Parameter, schema: any, source: Record<string, any>, rawQuery?: Record<string, string[]>): any => {
+  const { name } = parameter;
+  const type = getSchemaType(schema);
+  const style = getParameterStyle(parameter);
+  const explode = getParameterExplode(parameter);
+  const key = parameter.in === 'header' ? name.toLowerCase() : name;
+
+  if (parameter.in === 'query') {
+    if (style === 'deepObject') {
+      const result: Record<string, any> = {};
+      for (const [sourceKey, value] of Object.entries(source)) {
+        if (!sourceKey.startsWith(`${name}[`)) continue;
+        const path = sourceKey.slice(name.length).match(/\[([^\]]*)\]/g)?.map(part => part.slice(1, -1)) ?? [];
+        let target = result;
+        path.slice(0, -1).forEach(part => target = (isObject(target[part]) ? target[part] : (target[part] = {})));
+        if (path.length) target[path[path.length - 1]] = value;
+      }
+      return Object.keys(result).length ? result : source[name];
+    }
+    if (type === 'object' && explode) {
+      const properties = Object.keys(schema?.properties ?? {}).filter(property => source[property] !== undefined);
+      if (properties.length === 0) return source[name];
+      return Object.fromEntries(properties.map(property => [property, source[property]]));
+    }
+    const value = source[name];
+    if (value === undefined || (type !== 'array' && type !== 'object')) return value;
+    const values = ([] as string[]).concat(value);
+    if (type === 'array' && explode) return values;
+    const delimiter = QUERY_DELIMITERS[style] ?? ',';
+    // with allowReserved, delimiters are split on the raw query so percent-encoded delimiters remain part of the items
+    const raw = parameter.allowReserved ? rawQuery?.[name] : undefined;
+    const items = raw
+      ? raw.flatMap(item => item.split(delimiter === ' ' ? /(?:%20|\+| )/ : delimiter === '|' ? /(?:\||%7C)/i : delimiter)).map(decode)
+      : values.flatMap(item => item.split(delimiter));
+    return type === 'array' ? items : toPairs(items, false);
+  }
+
+  const value = source[key];
+  if (typeof value !== 'string') return value;
+  let serialized = value;
+  let delimiter = ',';
+  if (style === 'label') {
+    if (!serialized.startsWith('.')) return value;
+    serialized = serialized.slice(1);
+    if (explode) delimiter = '.';
+  } else if (style === 'matrix') {
+    if (!serialized.startsWith(';')) return value;
+    serialized = serialized.slice(1);
+    if (type === 'object' && explode) return toPairs(serialized.split(';'), true);
+    if (type === 'array' && explode) return serialized.split(';').map(item => item.slice(item.indexOf('=') + 1));
+    if (!serialized.startsWith(`${name}=`)) return value;
+    serialized = serialized.slice(name.length + 1);
+  }
+  if (type !== 'array' && type !== 'object') return serialized;
+  const items = serialized === '' ? [] : serialized.split(delimiter).map(item => parameter.in === 'header' ? item.trim() : item);
+  return type === 'array' ? items : toPairs(items, explode);
+}
+
+/**
+ * @description
+ * - Deserializes the path, query, header and cookie parameters of the request according to their `style`/`explode`, and coerces them to the types of their schemas (in place).
+ * - Collects an error for every missing required parameter, value that cannot be coerced, or value that fails its (precompiled) schema validator.
+ * - With `defaults`, missing parameters take the `default` of their schema.
+ */
+export const parseOperationParameters = <T extends OpenAPI.Operator>(specification: T, request: FastifyRequest, { validators, document, defaults = false }: { validators?: OperationValidators['parameters'], document?: any, defaults?: boolean } = {}) => {
+  debugGroup(`${request.method} ${request.url} | Parsing Operation Parameters`);
+  const errors: ParameterError[] = [];
+  try {
+    const params = getOperationParameters(specification, document);
+    const result: any = {
+      query: request.query ?? {},
+      params: request.params ?? {},
+      headers: request.headers ?? {},
+      cookies: (request as any).cookies ?? parseCookieHeader(request.headers?.cookie),
+    };
+    debugLog('PreParsed Parameters', result);
+    const rawQuery = params.some(param => param.in === 'query' && param.allowReserved) ? getRawQuery(request) : undefined;
+    for (const param of params) {
+      const location = param.in as ParameterError['in'];
+      const reqtype = PARAMETER_LOCATIONS[location];
+      const name = location === 'header' ? param.name.toLowerCase() : param.name;
+      const schema = dereference(document, param.schema);
+      let value = deserializeParameter(param, schema, result[reqtype], rawQuery);
+      const isEmpty = value === '' || (Array.isArray(value) && value.length === 1 && value[0] === '');
+      if (isEmpty && location === 'query') {
+        if (param.allowEmptyValue) {
+          result[reqtype][name] = '';
+          continue;
+        }
+        value = undefined;
+        delete result[reqtype][name];
+      }
+      if ((value === undefined || value === null) && defaults && schema?.default !== undefined) {
+        value = structuredClone(schema.default);
+      }
+      if (value === undefined || value === null) {
+        if (param.required) errors.push({ name: param.name, in: location, message: 'is required' });
+        continue;
+      }
+      const coerced = coerceParameterValue(schema, value, { document });
+      result[reqtype][name] = coerced.value;
+      if (coerced.message) {
+        errors.push({ name: param.name, in: location, message: coerced.message });
+        continue;
+      }
+      const validate = validators?.[getParameterKey(param)];
+      if (validate && !validate(coerced.value)) {
+        const message = (validate.errors ?? []).map(error => `${error.instancePath ? `${error.instancePath} ` : ''}${error.message}`).join(', ');
+        errors.push({ name: param.name, in: location, message });
+      }
+    }
+    request.params = result.params;
+    request.query = result.query;
+    request.headers = result.headers;
+    (request as any).cookies = result.cookies;
+    debugLogEnd('PostParsed Parameters', {
+      params: request.params,
+      query: request.query,
+      headers: request.headers,
+      cookies: result.cookies,
+      errors,
+    });
+    return { ...result, errors } as { query: any, params: any, headers: any, cookies: any, errors: ParameterError[] };
+  } catch (error) {
+    debugLogEnd('Error Parsing Operation Parameters', error);
+    return {
+      params: request.params as any,
+      query: request.query as any,
+      headers: request.headers as any,
+      cookies: (request as any).cookies,
+      errors,
+    };
+  }
+}
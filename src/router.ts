@@ -1,10 +1,19 @@
-import { FastifyInstance, FastifyReply, FastifyRequest } from "fastify";
+import { FastifyBaseLogger, FastifyInstance, FastifyLogFn, FastifyReply, FastifyRequest, RouteHandlerMethod } from "fastify";
 import { OpenAPI, FromSpec, Router } from ".";
 import { AutoLoadConfig, RefOptions, RouterOptions } from "./types/router.types";
-import { AUTO_VALIDATION_DEFAULTS, createAjv, debugGroup, debugLog, debugLogEnd, deepMerge, getAutoParseConfig, getAutoValidateConfig, getCallerDir, getIsRequestBodyRequired, getOperationOptions, getOperationPath, getRequestBodySchema, getResponseSchema, isObject, onValidationError, parseOperationParameters, replacePathWithOpenApiParams } from "./utils";
+import { debugGroup, debugLog, debugLogEnd, deepMerge, dereference, getAutoParseConfig, getAutoValidateConfig, getCallerDir, getDocumentOperations, getIsRequestBodyRequired, getOperationHooks, getOperationKey, getOperationOptions, getMediaTypeMatch, getNormalizeAjvOptions, getNormalizeConfig, getOperationPath, getRequestBodyMediaTypes, isObject, onParameterError, onResponseValidationError, onValidationError, replaceOpenApiParamsWithPath, replacePathWithOpenApiParams } from "./utils";
+import { getOperationParameters, parseOperationParameters } from "./parameters";
+import { getMultipartBody, getUrlEncodedBody, MULTIPART_MEDIA_TYPE, parseMultipart, URLENCODED_MEDIA_TYPE } from "./multipart";
+import { compileOperationValidators, createAjv, getFastifySchema, getNativeSharedSchemas, getResponseValidator, NATIVE_AJV_DEFAULTS } from "./validation";
+import { authorizeRequest, getSecurityRequirements, getSecuritySchemes, onSecurityError } from "./security";
+import { DOCS_CONTENT_TYPES, getDocsConfig, getDocsHtml, getETag, isETagMatch } from "./docs";
+import { toYaml } from "./yaml";
+import { formatLintViolation, getLintConfig, lintOperations } from "./lint";
+import { getMockConfig, getMockResponse } from "./mock";
+import { getClientInjectOptions, getClientResponseBody, validateClientResponse } from "./client";
 import { globSync } from "glob";
-import Ajv, {ErrorObject} from "ajv";
-import ajvFormats from "ajv-formats";
+import { Options as AjvOptions } from "ajv";
+import type AjvCore from "ajv/dist/core";
 
 
 
@@ -45,17 +54,28 @@ import ajvFormats from "ajv-formats";
  * ```
  */
 
-export class OpenApiRouter<T> {
+export class OpenApiRouter<T, V extends Router.SecurityVerifiers = {}> {
   readonly routes: Array<{
     path: string;
     methods: Router.OperatorRecord;
     options?: Router.RouterOptions;
   }> = [];
+  private readonly validators = new Map<string, Router.OperationValidators>();
+  private readonly ajvInstances = new Map<string, AjvCore>();
+  private readonly securityRequirements = new Map<string, OpenAPI.SecurityRequirement[]>();
+  private securitySchemes: Record<string, OpenAPI.SecurityScheme> = {};
+  private readonly unresolvedRefs = new Set<string>();
+  /** operators bound to operations of the document's `paths`, which the specification keeps as they are */
+  private readonly documentOperators = new WeakSet<Router.Operator<any>>();
+  /** whether operations of the document's `paths` are implemented or mocked (see `implement()` and `mock()`) */
+  private usesDocumentOperations = false;
+  private specificationCache?: {
+    document: OpenAPI.Document & { paths: NonNullable<OpenAPI.Document['paths']> },
+    /** the served representations of the document, with their ETags */
+    serialized: Partial<Record<'json' | 'yaml' | 'ui', { body: string, etag: string }>>
+  };
 
-  constructor(readonly app: FastifyInstance, readonly document: T, readonly options: RouterOptions = {}) {
-    const autoValidate = options?.autoValidate;
-    const ajvOptions = typeof autoValidate === 'object' ? autoValidate?.config : { allErrors: true };
-  }
+  constructor(readonly app: FastifyInstance, readonly document: T, readonly options: RouterOptions & { security?: V } = {}) {}
 
   /**
    * @description
@@ -92,15 +112,16 @@ export class OpenApiRouter<T> {
       });
   * ```
    */
-  route(path: string, methods: Router.OperatorRecord, options?: Router.RouteOptions) {
+  route<M extends Router.OperatorRecord>(path: string, methods: M, options?: Router.RouteOptions): Router.Route<M> {
     const routerOptions = getOperationOptions({ operatorOptions: undefined, routeOptions: options, routerOptions: this.options });
     const newPath = getOperationPath(path, routerOptions);
+    this.specificationCache = undefined;
     const existingRoute = this.routes.find(r => r.path === newPath);
     if (existingRoute) {
       console.warn(`[WARNING] Route "${newPath}" already exists, merging methods and overriding options`);
       existingRoute.methods = {...existingRoute.methods, ...methods};
       existingRoute.options = options;
-      return existingRoute;
+      return existingRoute as Router.Route<M>;
     }
     const route = {
       path: newPath,
@@ -144,12 +165,93 @@ export class OpenApiRouter<T> {
     )
    * ```
    */
-  op<T extends OpenAPI.Operator>(specification: T, handler: FromSpec.Method<T>, options?: Router.OperatorOptions): Router.Operator<T> {
+  op<T extends OpenAPI.Operator, D extends boolean = false>(specification: T, handler: FromSpec.Method<Router.WithDefaults<T, D>, Router.SecurityResults<V>>, options?: Router.OperatorOptions<T, Router.SecurityResults<V>, D>): Router.Operator<T> {
     return {
       specification,
-      handler,
-      options
+      handler: handler as FromSpec.Method<T, any>,
+      options: options as Router.OperatorOptions<T>
+    }
+  }
+
+  /**
+   * @description
+   * - Implements an operation of the document's `paths` (contract-first), registering its route from the specification.
+   * - The handler is typed from the operation with the given `operationId`, including the parameters of its path item.
+   * @param operationId - The `operationId` of the operation.
+   * @param handler - The handler function.
+   * @returns The operator object.
+   * @example
+   * ```typescript
+   * $.implement('getUser', async (request) => {
+   *   return dbHelpers.getUser(request.params.id);
+   * });
+   * ```
+   */
+  implement<Id extends FromSpec.OperationIds<T>, D extends boolean = false>(operationId: Id, handler: FromSpec.Method<Router.WithDefaults<Extract<FromSpec.OperationById<T, Id>, OpenAPI.Operator>, D>, Router.SecurityResults<V>>, options?: Router.OperatorOptions<Extract<FromSpec.OperationById<T, Id>, OpenAPI.Operator>, Router.SecurityResults<V>, D>) {
+    const operation = getDocumentOperations(this.document).find(({ specification }) => specification.operationId === operationId);
+    if (!operation) throw new Error(`[openapi-fastify] Operation "${operationId}" is not in the document's paths`);
+    this.usesDocumentOperations = true;
+    const operator = this.op(operation.specification, handler as FromSpec.Method<OpenAPI.Operator, any>, options as Router.OperatorOptions);
+    this.addDocumentOperator(operation.path, operation.method, operator);
+    return operator;
+  }
+
+  /**
+   * @description
+   * - Registers the operations of the document's `paths` that no route implements with mock handlers, answering from their examples or a value generated from their response schemas.
+   * - The status code and named example of the response can be picked per request, with the `x-mock-status`/`x-mock-example` headers or the `__status`/`__example` query parameters (configurable).
+   * - Called by `initialize()` when the `mock` option is set, otherwise call it before `initialize()`.
+   * @example
+   * ```typescript
+   * $.mock();
+   * $.initialize();
+   * // curl -H 'x-mock-status: 404' /users/1
+   * ```
+   */
+  mock(config?: Router.MockConfig) {
+    const mockConfig = getMockConfig(config ?? this.options.mock);
+    this.usesDocumentOperations = true;
+    for (const { path, method, specification } of this.getUnimplementedOperations()) {
+      debugLog(`Mocking Operation: ${method.toUpperCase()} ${path}`);
+      this.addDocumentOperator(path, method, this.op(specification, this.handlers.mock(specification, mockConfig) as FromSpec.Method<OpenAPI.Operator, any>));
+    }
+  }
+
+  /**
+   * @description
+   * - Returns an in-process client with a method per `operationId`, calling the registered routes through `app.inject` (call it after `initialize()`).
+   * - The path, query, header and cookie parameters and the body of a request are typed from the operation, and its URL is built from the registered path (including the prefix).
+   * - Responses are typed per declared status (checking `statusCode` narrows the `body`), and checked against the operation with `validateResponse`.
+   * - The operations are typed from the document's `paths`, pass `FromSpec.RouteOperations<typeof route>` to type the operations of routes registered with `route()`.
+   * @example
+   * ```typescript
+   * const client = $.client<FromSpec.RouteOperations<typeof usersRoute>>({ validateResponse: true });
+   * const res = await client.getUserById({ params: { id: 1 } });
+   * if (res.statusCode === 200) res.body.username;
+   * ```
+   */
+  client<Operations = FromSpec.Operations<T>>(options: Router.ClientOptions = {}): Router.Client<Operations> {
+    const client: Record<string, (request?: Record<string, any>, callOptions?: Router.ClientOptions) => Promise<unknown>> = {};
+    for (const { path: rawPath, methods, options: routeOptions } of this.routes) {
+      for (const [method, { specification: originalSpec, options: operatorOptions }] of Object.entries(methods) as [Router.OperatorName, Router.Operator<OpenAPI.Operator>][]) {
+        const specification = this.options.specModifier ? this.options.specModifier(originalSpec) : originalSpec;
+        const { operationId } = specification;
+        if (!operationId || client[operationId]) continue;
+        const operationOptions = getOperationOptions({ operatorOptions, routeOptions, routerOptions: this.options });
+        const path = getOperationPath(rawPath, operationOptions);
+        let validators: Router.OperationValidators['response'] | undefined;
+        client[operationId] = async (request = {}, callOptions = {}) => {
+          const response = await this.app.inject(getClientInjectOptions(method, path, request, { specification, document: this.document, headers: { ...options.headers, ...callOptions.headers } }));
+          const result = { statusCode: response.statusCode, headers: response.headers, body: getClientResponseBody(response), response };
+          if (callOptions.validateResponse ?? options.validateResponse) {
+            validators ??= compileOperationValidators(this.getAjv(getAutoValidateConfig(operationOptions.autoValidate).config), specification, { request: false, parameters: false, name: operationId, document: this.document }).response;
+            validateClientResponse(result, specification, validators, operationId, this.document);
+          }
+          return result;
+        }
+      }
     }
+    return client as Router.Client<Operations>;
   }
 
   /**
@@ -180,17 +282,19 @@ export class OpenApiRouter<T> {
         for (const part of pathParts) {
           if (!isObject(comp)) {
             debugLog(`Warning: path does not exist in specification`, comp);
-            return {};
+            return undefined;
           }
           comp = comp[part];
         };
         return comp;
       } catch (error) {
         debugLog(`Error: error getting component from ref (defaulting to empty object)`, error);
-        return {};
+        return undefined;
       }
     })();
-    let component = rawComponent;
+    // reported by the `resolved-refs` lint rule
+    if (rawComponent === undefined) this.unresolvedRefs.add(ref as string);
+    let component = rawComponent ?? {};
     if (override){
       debugLog('pre-override resolved reference', rawComponent);
       component = deepMerge({...rawComponent}, {...override});
@@ -259,13 +363,14 @@ export class OpenApiRouter<T> {
    * })
    * ```
    */
-  handler<T extends OpenAPI.Operator>(handler: FromSpec.Method<T>) {
+  handler<T extends OpenAPI.Operator>(handler: FromSpec.Method<T, Router.SecurityResults<V>>) {
     return handler;
   }
 
   /**
    * @description
    * - Initializes the router and registers all routes with Fastify.
+   * - Compiles the request body and response validators of every operation up front (throws if a schema cannot be compiled).
    * @returns The Fastify instance.
    * @example
    * ```typescript
@@ -273,19 +378,96 @@ export class OpenApiRouter<T> {
    * ```
    */
   initialize() {
+    if (this.options.mock) this.mock();
+    const unimplemented = this.options.unimplemented ?? (this.usesDocumentOperations ? 'warn' : 'ignore');
+    const unimplementedOperations = unimplemented === 'ignore' ? [] : this.getUnimplementedOperations();
+    const describeUnimplemented = ({ method, path, specification }: typeof unimplementedOperations[number]) => `${method.toUpperCase()} ${path}${specification.operationId ? ` (${specification.operationId})` : ''}`;
+    if (unimplemented === 'error' && unimplementedOperations.length > 0) throw new Error(`[openapi-fastify] Unimplemented operations:\n${unimplementedOperations.map(operation => `  - ${describeUnimplemented(operation)}`).join('\n')}`);
+    for (const operation of unimplementedOperations) {
+      if (unimplemented === 'warn') this.log.warn(`[openapi-fastify] Operation ${describeUnimplemented(operation)} is not implemented`);
+      if (unimplemented === 'stub') this.addDocumentOperator(operation.path, operation.method, this.op(operation.specification, (async (request: FastifyRequest, reply: FastifyReply) => reply.code(501).send({ error: "Not Implemented" })) as FromSpec.Method<OpenAPI.Operator, any>));
+    }
+    const violations = this.lint();
+    for (const violation of violations.filter(violation => violation.level === 'warn')) this.log.warn(`[openapi-fastify] ${formatLintViolation(violation)}`);
+    const lintErrors = violations.filter(violation => violation.level === 'error');
+    if (lintErrors.length > 0) throw new Error(`[openapi-fastify] Specification lint failed:\n${lintErrors.map(violation => `  - ${formatLintViolation(violation)}`).join('\n')}`);
+    const autoValidate = getAutoValidateConfig(this.options.autoValidate);
+    let hasCookieParameters = false;
+    let hasMultipartBodies = false;
+    let hasUrlEncodedBodies = false;
+    let hasRequestBodies = false;
+    this.securitySchemes = getSecuritySchemes(this.document);
     for (const { path: rawPath, methods, options: routeOptions = {} } of this.routes) {
       for (const [method, { specification: originalSpec, handler, options: operatorOptions = {} }] of Object.entries(methods) as [Router.OperatorName, Router.Operator<OpenAPI.Operator>][]) {
         const operationOptions = getOperationOptions({ operatorOptions, routeOptions, routerOptions: this.options });
         const path = getOperationPath(rawPath, operationOptions);
         const specification = this.options.specModifier ? this.options.specModifier(originalSpec) : originalSpec;
+        const operationAutoValidate = getAutoValidateConfig(operationOptions.autoValidate);
+        if (this.options.security) {
+          const requirements = getSecurityRequirements(specification, this.document);
+          for (const name of requirements.flatMap(requirement => Object.keys(requirement))) {
+            if (!this.securitySchemes[name]) throw new Error(`[openapi-fastify] Unknown security scheme "${name}" (${method.toUpperCase()} ${path})`);
+            if (!this.options.security[name]) throw new Error(`[openapi-fastify] No verifier registered for security scheme "${name}" (${method.toUpperCase()} ${path})`);
+          }
+          this.securityRequirements.set(getOperationKey(method, path), requirements);
+        }
+        hasCookieParameters ||= getOperationParameters(specification, this.document).some(parameter => parameter.in === 'cookie');
+        const bodyMediaTypes = getRequestBodyMediaTypes(specification, this.document);
+        hasMultipartBodies ||= bodyMediaTypes.some(mediaType => getMediaTypeMatch(mediaType, [MULTIPART_MEDIA_TYPE]));
+        hasUrlEncodedBodies ||= bodyMediaTypes.some(mediaType => getMediaTypeMatch(mediaType, [URLENCODED_MEDIA_TYPE]));
+        hasRequestBodies ||= bodyMediaTypes.length > 0;
+        if (operationOptions.nativeSchema === true) {
+          this.addNativeSharedSchemas();
+          const ajv = this.getAjv({ ...NATIVE_AJV_DEFAULTS, ...operationAutoValidate.config });
+          this.app[method](path, {
+            schema: { ...specification, ...getFastifySchema(specification, this.document) },
+            validatorCompiler: ({ schema }) => ajv.compile(schema),
+            ...getOperationHooks(operationOptions)
+          }, handler as RouteHandlerMethod);
+          debugLog(`Registered Route: ${method?.toUpperCase()} ${path} (native schema)`);
+          continue;
+        }
+        const closeObjects = getNormalizeConfig(operationOptions.normalize).additionalProperties !== 'keep';
+        this.validators.set(getOperationKey(method, path), compileOperationValidators(this.getAjv(getNormalizeAjvOptions(operationAutoValidate.config, operationOptions.normalize), closeObjects), specification, {
+          request: autoValidate.request.validate !== false && operationAutoValidate.request.validate === true,
+          response: autoValidate.response.validate !== false && operationAutoValidate.response.validate === true,
+          parameters: getAutoParseConfig(operationOptions.autoParse).parameters.parse === true,
+          name: `${method.toUpperCase()} ${path}`,
+          document: this.document,
+          closeObjects,
+          responseAjv: this.getAjv(operationAutoValidate.config)
+        }));
         this.app[method](path, {
-          schema: specification as any
-        }, handler);
+          schema: specification as any,
+          ...getOperationHooks(operationOptions)
+        }, handler as RouteHandlerMethod);
         debugLog(`Registered Route: ${method?.toUpperCase()} ${path}`);
       }
     }
-    const autoValidate = getAutoValidateConfig(this.options.autoValidate);
-    if (autoValidate.request.validate !== false) {
+    if (hasCookieParameters && !this.app.hasRequestDecorator('cookies')) {
+      debugLog('Decorating request with cookies');
+      this.app.decorateRequest('cookies', null);
+    }
+    if (this.options.security) {
+      debugLog('Applying onRequest security hook');
+      if (!this.app.hasRequestDecorator('auth')) this.app.decorateRequest('auth', null);
+      this.app.addHook('onRequest', this.hooks.onRequest);
+    }
+    const docs = getDocsConfig(this.options.docs);
+    for (const format of ['json', 'yaml', 'ui'] as const) {
+      if (!docs?.[format]) continue;
+      debugLog(`Registered Docs Route: GET ${docs[format]}`);
+      this.app.get(docs[format], this.handlers.docs(format));
+    }
+    if (hasMultipartBodies && !this.app.hasContentTypeParser(MULTIPART_MEDIA_TYPE)) {
+      debugLog('Adding multipart/form-data content type parser');
+      this.app.addContentTypeParser(MULTIPART_MEDIA_TYPE, { parseAs: 'buffer' }, this.parsers.multipart);
+    }
+    if (hasUrlEncodedBodies && !this.app.hasContentTypeParser(URLENCODED_MEDIA_TYPE)) {
+      debugLog('Adding application/x-www-form-urlencoded content type parser');
+      this.app.addContentTypeParser(URLENCODED_MEDIA_TYPE, { parseAs: 'string' }, this.parsers.urlencoded);
+    }
+    if (hasRequestBodies || autoValidate.request.validate !== false || getAutoParseConfig(this.options.autoParse).parameters.parse === true) {
       debugLog('Applying preValidation hook')
       this.app.addHook('preValidation', this.hooks.preValidation);
     }
@@ -296,21 +478,44 @@ export class OpenApiRouter<T> {
     return this.app;
   }
 
+  /**
+   * @description
+   * - Runs the lint rules (configured by the `lint` option) over the registered routes and returns their violations, without logging or throwing.
+   * - In strict mode every violation is an `error`.
+   * @example
+   * ```typescript
+   * $.lint() // [{ rule: 'path-parameters', level: 'warn', message: 'Path parameter "id" is not declared', method: 'get', path: '/users/:id' }]
+   * ```
+   */
+  lint(): Router.LintViolation[] {
+    const { strict, rules } = getLintConfig(this.options.lint);
+    const operations = this.routes.flatMap(({ path, methods }) =>
+      (Object.entries(methods) as [Router.OperatorName, Router.Operator<OpenAPI.Operator>][]).map(([method, { specification }]) => ({
+        method,
+        path,
+        specification: this.options.specModifier ? this.options.specModifier(specification) : specification
+      }))
+    );
+    const violations = lintOperations(operations, { document: this.document, unresolvedRefs: [...this.unresolvedRefs], rules });
+    return strict ? violations.map(violation => ({ ...violation, level: 'error' })) : violations;
+  }
+
   /**
    * @description
    * - Autoloads routes from the specified directory.
    * @param include - The files to include.
    * @param exclude - The files to exclude.
+   * @param cwd - The directory the patterns are relative to (defaults to the directory of the calling file).
    * @returns The Fastify instance.
    * @example
    * ```typescript
    * $.autoload({ include: ['**\/*.ts'], exclude: ['*.exclude.*'] });
    * ```
    */
-  async autoload({ include, exclude }: AutoLoadConfig) {
+  async autoload({ include, exclude, cwd }: AutoLoadConfig) {
     const toInclude = Array.isArray(include) ? include : include ? [include] : ['**/*.ts'];
     const toExclude = Array.isArray(exclude) ? exclude : exclude ? [exclude] : [];
-    const callerDir = getCallerDir();
+    const callerDir = cwd ?? getCallerDir();
 
     // Resolve paths relative to the caller directory
     const files = globSync(toInclude, {
@@ -335,6 +540,7 @@ export class OpenApiRouter<T> {
    * @description
    * - Returns the OpenAPI specification.
    * - This method should be called after all routes have been registered.
+   * - The generated document is cached until another route is registered.
    * @returns The OpenAPI specification.
    * @example
    * ```typescript
@@ -342,14 +548,18 @@ export class OpenApiRouter<T> {
    * console.log(spec.paths['/users']);
    * ```
    */
-  get specification() {
+  get specification(): OpenAPI.Document & { paths: NonNullable<OpenAPI.Document['paths']> } {
+    if (this.specificationCache) return this.specificationCache.document;
     const newSpec = { ...this.document } as any;
     if (!newSpec.paths) newSpec.paths = {};
     for (const { path: rawPath, methods, options: routeOptions } of this.routes) {
       if (routeOptions?.excludeFromSpecification === true) continue;
       const path = replacePathWithOpenApiParams(rawPath);
       newSpec.paths[path] = newSpec.paths[path] || {};
-      for (const [_method, { specification: originalSpec, options: operatorOptions }] of Object.entries(methods)) {
+      for (const [_method, operator] of Object.entries(methods)) {
+        const { specification: originalSpec, options: operatorOptions } = operator;
+        // operations of the document's paths are already in it
+        if (this.documentOperators.has(operator)) continue;
         const options = getOperationOptions({ operatorOptions: operatorOptions, routeOptions, routerOptions: this.options });
         if (options?.excludeFromSpecification === true) continue;
         const method = _method as Router.OperatorName;
@@ -358,8 +568,9 @@ export class OpenApiRouter<T> {
       }
       if (Object.keys(newSpec.paths[path]).length === 0) delete newSpec.paths[path];
     }
-    if (this.options.specificationResolver) return this.options.specificationResolver(newSpec);
-    return newSpec as OpenAPI.Document;
+    const document = this.options.specificationResolver ? this.options.specificationResolver(newSpec) as any : newSpec;
+    this.specificationCache = { document, serialized: {} };
+    return document;
   }
 
   printRoutes(){
@@ -376,6 +587,14 @@ export class OpenApiRouter<T> {
 
   //////////////////////// PRIVATE METHODS ////////////////////////
 
+  /**
+   * @description
+   * - The Fastify logger, with its log methods typed as `FastifyLogFn` (the pino typings behind `FastifyBaseLogger` only resolve with `esModuleInterop`).
+   */
+  private get log() {
+    return this.app.log as FastifyBaseLogger & Record<'warn', FastifyLogFn>;
+  }
+
   private describeOperation(...args: [request: FastifyRequest] | [method: Router.OperatorName, path: string]) {
     let method: Router.OperatorName;
     let path: string;
@@ -388,69 +607,196 @@ export class OpenApiRouter<T> {
       path = args[1] as string;
     }
     const route = this.routes.find(r => r.path === path);
+    // Fastify answers HEAD requests of GET operations (without their own HEAD) with the GET route
+    if (method === 'head' && !route?.methods?.head && route?.methods?.get) method = 'get';
     const operation = route?.methods?.[method];
     const options = getOperationOptions({ operatorOptions: operation?.options, routeOptions: route?.options, routerOptions: this.options });
     const autoValidate = getAutoValidateConfig(options?.autoValidate);
     const autoParse = getAutoParseConfig(options?.autoParse);
-    return { method, path, route, operation, options: { ...options, autoValidate, autoParse } };
+    const normalize = getNormalizeConfig(options?.normalize);
+    return { method, path, route, operation, options: { ...options, autoValidate, autoParse, normalize } };
+  }
+  /**
+   * @description
+   * - Returns the shared Ajv instance for the given configuration, creating it on first use.
+   * - The document components are registered with the instance so `$ref`s can be resolved.
+   */
+  private getAjv(config?: AjvOptions, closeObjects = false) {
+    const key = `${closeObjects ? 'closed:' : ''}${JSON.stringify(config ?? {})}`;
+    let ajv = this.ajvInstances.get(key);
+    if (!ajv) {
+      ajv = createAjv(config, this.document as any, { closeObjects });
+      this.ajvInstances.set(key, ajv);
+    }
+    return ajv;
+  }
+
+  /**
+   * @description
+   * - Adds the document component schemas to Fastify (once), so native route schemas can reference them.
+   */
+  private addNativeSharedSchemas() {
+    for (const schema of getNativeSharedSchemas(this.document as any)) {
+      if (!this.app.getSchema(schema.$id)) this.app.addSchema(schema);
+    }
   }
+
+  /**
+   * @description
+   * - Registers an operator for an operation of the document's `paths` (an OpenAPI path, e.g. `/users/{id}`), alongside the routes of the same path.
+   */
+  private addDocumentOperator(openApiPath: string, method: Router.OperatorName, operator: Router.Operator<any>) {
+    const path = getOperationPath(replaceOpenApiParamsWithPath(openApiPath), this.options);
+    this.documentOperators.add(operator);
+    this.specificationCache = undefined;
+    const existingRoute = this.routes.find(r => r.path === path);
+    if (existingRoute) existingRoute.methods = { ...existingRoute.methods, [method]: operator };
+    else this.routes.push({ path, methods: { [method]: operator } });
+  }
+
+  /**
+   * @description
+   * - Returns the operations of the document's `paths` that no registered route implements.
+   */
+  private getUnimplementedOperations() {
+    const registered = new Set(this.routes.flatMap(({ path, methods }) => Object.keys(methods).map(method => getOperationKey(method, replacePathWithOpenApiParams(path)))));
+    return getDocumentOperations(this.document).filter(({ path, method }) => !registered.has(getOperationKey(method, getOperationPath(path, this.options))));
+  }
+
+  /**
+   * @description
+   * - Returns the media type object the request's operation declares for the given content type, if any.
+   */
+  private getRequestBodyMedia(request: FastifyRequest, contentType: string) {
+    const { operation } = this.describeOperation(request);
+    const requestBody = dereference<OpenAPI.RequestBody>(this.document, (operation?.specification as { requestBody?: OpenAPI.RequestBody } | undefined)?.requestBody);
+    const content = requestBody?.content ?? {};
+    const mediaType = getMediaTypeMatch(contentType, Object.keys(content));
+    return mediaType ? content[mediaType] : undefined;
+  }
+
+  private readonly parsers = {
+    // multipart/form-data parser, building the body according to the operation's schema and encoding
+    multipart: async (request: FastifyRequest, body: Buffer | string) => {
+      return getMultipartBody(parseMultipart(Buffer.from(body), request.headers['content-type'] ?? ''), this.getRequestBodyMedia(request, MULTIPART_MEDIA_TYPE), this.document);
+    },
+    // application/x-www-form-urlencoded parser, coercing fields according to the operation's schema and encoding
+    urlencoded: async (request: FastifyRequest, body: Buffer | string) => {
+      return getUrlEncodedBody(body.toString(), this.getRequestBodyMedia(request, URLENCODED_MEDIA_TYPE), this.document);
+    }
+  }
+
+  /**
+   * @description
+   * - Returns a served representation of the specification (JSON, YAML or the HTML docs page), serializing it once per generated document.
+   */
+  private getSerializedSpecification(format: 'json' | 'yaml' | 'ui') {
+    const document = this.specification;
+    const serialized = this.specificationCache!.serialized;
+    if (!serialized[format]) {
+      const docs = getDocsConfig(this.options.docs);
+      const body = format === 'json' ? JSON.stringify(document)
+        : format === 'yaml' ? toYaml(document)
+        : getDocsHtml(document, { json: docs?.json, yaml: docs?.yaml });
+      serialized[format] = { body, etag: getETag(body) };
+    }
+    return serialized[format];
+  }
+
+  private readonly handlers = {
+    // answers with a mocked response of the operation, picking the status and example from the request
+    mock: (specification: OpenAPI.Operator, config: ReturnType<typeof getMockConfig>) => async (request: FastifyRequest, reply: FastifyReply) => {
+      const query = (request.query ?? {}) as Record<string, any>;
+      const pick = (header: string, parameter: string) => [request.headers[header.toLowerCase()], query[parameter]].flat().find((value): value is string => typeof value === 'string' && value !== '');
+      const { statusCode, contentType, body } = getMockResponse(specification, this.document, { status: pick(config.statusHeader, config.statusQuery), example: pick(config.exampleHeader, config.exampleQuery) });
+      reply.code(statusCode);
+      if (!contentType || body === undefined) return reply.send();
+      // serialized here, so string bodies of JSON media types are sent as JSON strings
+      return reply.type(contentType).send(typeof body === 'string' && !getMediaTypeMatch(contentType, ['application/json']) ? body : JSON.stringify(body));
+    },
+    // serves the specification or the docs page, answering conditional requests with 304
+    docs: (format: 'json' | 'yaml' | 'ui') => async (request: FastifyRequest, reply: FastifyReply) => {
+      const { body, etag } = this.getSerializedSpecification(format);
+      reply.header('etag', etag).header('cache-control', 'no-cache');
+      if (isETagMatch(request.headers['if-none-match'], etag)) return reply.code(304).send();
+      return reply.type(DOCS_CONTENT_TYPES[format]).send(body);
+    }
+  }
+
   private readonly hooks = {
+    // security hook, enforcing the operation's security requirements before the body is parsed
+    onRequest: async (request: FastifyRequest, reply: FastifyReply) => {
+      const { method, path } = this.describeOperation(request);
+      const requirements = this.securityRequirements.get(getOperationKey(method, path));
+      if (!requirements || !this.options.security) return;
+      const { auth, error } = await authorizeRequest(request, requirements, { schemes: this.securitySchemes, verifiers: this.options.security });
+      if (error) {
+        debugLog(`${method} ${path} | Security Requirements Failed (${error.statusCode})`);
+        return onSecurityError(request, reply, error);
+      }
+      (request as FastifyRequest & { auth: Record<string, any> }).auth = auth;
+    },
     // request validation hook
     preValidation: async (request: FastifyRequest, reply: FastifyReply) => {
       const payload = request.body;
       const contentType = request.headers['content-type'] ?? 'application/json';
       const { method, path, operation, options: routeOptions } = this.describeOperation(request);
-      if (routeOptions?.autoParse?.parameters?.parse === true && operation?.specification)
-        parseOperationParameters(operation?.specification, request);
-      try {
-        if (method === 'get') return
-        debugGroup(`${method} ${path} | Validating Request Body`);
-        if (!path) return debugLogEnd(`Skipping Request Body Validation (No Path)`);
-        if (!payload) return debugLogEnd(`Skipping Request Body Validation (No Payload)`);
-        if (!operation) return debugLogEnd(`Skipping Request Body Validation (No Operation)`);
-        if (routeOptions?.autoValidate?.request?.validate !== true) return debugLogEnd(`Skipping Request Body Validation (Auto Validate Disabled)`);
-        const reqBodySpec = getRequestBodySchema(contentType, operation.specification);
-        if (!reqBodySpec) {
-          const isRequired = getIsRequestBodyRequired(operation.specification);
-          if (isRequired) {
-            debugLogEnd(`Request Body Validation Failed | Request Body is required`);
-            return onValidationError('request', routeOptions?.autoValidate, request, reply, [{ message: "Request Body is required", instancePath: '', schemaPath: '#', keyword: 'required', params: {}}])
-          } 
-          return debugLogEnd(`Skipping Request Body Validation (No Request Body Schema)`);
-        };
-        const ajv = createAjv(routeOptions?.autoValidate?.config);
-        const validate = ajv.compile(reqBodySpec)
-        const isValid = validate(payload);
-        const errors = validate.errors;
-        if (!isValid){
-          debugLogEnd(`Request Body Validation Failed`, errors);
-          return onValidationError('request', routeOptions?.autoValidate, request, reply, errors || [])
+      if (routeOptions?.nativeSchema === true) return;
+      if (routeOptions?.autoParse?.parameters?.parse === true && operation?.specification) {
+        const { errors } = parseOperationParameters(operation.specification, request, { validators: this.validators.get(getOperationKey(method, path))?.parameters, document: this.document, defaults: routeOptions.normalize.defaults });
+        if (errors.length > 0) {
+          debugLog(`${method} ${path} | Parameter Validation Failed`, errors);
+          return onParameterError(routeOptions.autoParse, request, reply, errors);
         }
-        return debugLogEnd(`Request Body Validation Passed`);
-      } catch (error) {
-        return debugLogEnd(`Error Validating Request Body`, error);
       }
+      // undeclared content types are rejected whether or not the body is validated
+      const mediaTypes = operation ? getRequestBodyMediaTypes(operation.specification, this.document) : [];
+      const mediaType = getMediaTypeMatch(contentType, mediaTypes);
+      if (payload !== undefined && mediaTypes.length > 0 && !mediaType) {
+        debugLog(`${method} ${path} | Unsupported Media Type ${contentType}`);
+        return reply.status(415).send({ error: "Unsupported Media Type", contentType, supported: mediaTypes });
+      }
+      if (method === 'get') return
+      debugGroup(`${method} ${path} | Validating Request Body`);
+      if (!path) return debugLogEnd(`Skipping Request Body Validation (No Path)`);
+      if (!operation) return debugLogEnd(`Skipping Request Body Validation (No Operation)`);
+      if (routeOptions?.autoValidate?.request?.validate !== true) return debugLogEnd(`Skipping Request Body Validation (Auto Validate Disabled)`);
+      if (!payload) {
+        if (getIsRequestBodyRequired(operation.specification, this.document)) {
+          debugLogEnd(`Request Body Validation Failed | Request Body is required`);
+          return onValidationError('request', routeOptions?.autoValidate, request, reply, [{ message: "Request Body is required", instancePath: '', schemaPath: '#', keyword: 'required', params: {}}])
+        }
+        return debugLogEnd(`Skipping Request Body Validation (No Payload)`);
+      }
+      const validate = mediaType ? this.validators.get(getOperationKey(method, path))?.request[mediaType] : undefined;
+      if (!validate) return debugLogEnd(`Skipping Request Body Validation (No Request Body Schema)`);
+      const isValid = validate(payload);
+      const errors = validate.errors;
+      if (!isValid){
+        debugLogEnd(`Request Body Validation Failed`, errors);
+        return onValidationError('request', routeOptions?.autoValidate, request, reply, errors || [])
+      }
+      return debugLogEnd(`Request Body Validation Passed`);
     },
     // response validation hook
     preSerialization: async (request: FastifyRequest, reply: FastifyReply, payload: any) => {
       if (reply.sent) return;
       debugGroup(`Validating Response Body | ${request.method} ${request.routeOptions?.url}`);
-      const contentType = (reply.getHeader('content-type') ?? 'application/json').toString();
       if (!payload) return debugLogEnd(`Skipping Response Body Validation (No Payload)`);
-      const { operation, options: routeOptions } = this.describeOperation(request);
+      const { method, path, operation, options: routeOptions } = this.describeOperation(request);
       if (!operation) return debugLogEnd(`Skipping Response Body Validation (No Operation)`);
-      const resBodySpec = getResponseSchema(contentType, operation?.specification, reply);
-      if (!resBodySpec) return debugLogEnd(`Skipping Response Body Validation (No Response Body Schema)`);
-      const ajv = createAjv(routeOptions?.autoValidate?.config);
-      const validate = ajv.compile(resBodySpec)
+      if (routeOptions?.nativeSchema === true) return debugLogEnd(`Skipping Response Body Validation (Native Schema)`);
+      const contentType = reply.getHeader('content-type')?.toString() ?? 'application/json';
+      const validate = getResponseValidator(this.validators.get(getOperationKey(method, path))?.response, reply.statusCode, contentType);
+      if (!validate) return debugLogEnd(`Skipping Response Body Validation (No Response Body Schema)`);
       const isValid = validate(payload);
       const errors = validate.errors;
       if (!isValid) {
         debugLogEnd(`Response Body Validation Failed`, errors);
-        return onValidationError('response', routeOptions?.autoValidate, request, reply, errors || [])
+        return onResponseValidationError(routeOptions?.autoValidate, request, reply, errors || []);
       }
       debugLogEnd(`Response Body Validation Passed`);
       return;
     }
   }
-}
+}
\ No newline at end of file
@@ -0,0 +1,132 @@
+import { FastifyReply, FastifyRequest } from "fastify";
+import { OpenAPI } from "./types";
+import type { TLSSocket } from "tls";
+import { SecurityCredentials, SecurityError, SecurityVerifiers } from "./types/router.types";
+import { dereference, isObject } from "./utils";
+import { parseCookieHeader } from "./parameters";
+
+/**
+ * @description
+ * - Returns the security requirements of an operation, falling back to the document's global `security` (an empty array means no authentication).
+ */
+export const getSecurityRequirements = (specification: OpenAPI.Operator, document?: any): OpenAPI.SecurityRequirement[] =>
+  ((specification as { security?: OpenAPI.SecurityRequirement[] }).security ?? document?.security ?? []);
+
+/**
+ * @description
+ * - Returns the (dereferenced) security schemes of the document, keyed by name.
+ */
+export const getSecuritySchemes = (document?: any): Record<string, OpenAPI.SecurityScheme> =>
+  Object.fromEntries(Object.entries<any>(document?.components?.securitySchemes ?? {}).map(([name, scheme]) => [name, dereference<OpenAPI.SecurityScheme>(document, scheme)]).filter(([, scheme]) => scheme));
+
+/**
+ * @description
+ * - Extracts the credentials of a security scheme from the request, `undefined` if the request does not carry them.
+ * @example
+ * ```typescript
+ * getSecurityCredentials({ type: 'http', scheme: 'bearer' }, request) // { type: 'http', scheme: 'bearer', value: 'token' } (Authorization: Bearer token)
+ * ```
+ */
+export const getSecurityCredentials = (scheme: OpenAPI.SecurityScheme, request: FastifyRequest): SecurityCredentials | undefined => {
+  const type = (scheme as { type: string }).type;
+  if (type === 'mutualTLS') {
+    const certificate = (request.raw?.socket as TLSSocket | undefined)?.getPeerCertificate?.();
+    return certificate?.fingerprint256 ? { type, value: certificate.fingerprint256 } : undefined;
+  }
+  if (type === 'apiKey') {
+    const { name, in: location } = scheme as OpenAPI.OpenAPIV3.ApiKeySecurityScheme;
+    const value = location === 'header' ? request.headers?.[name.toLowerCase()]
+      : location === 'query' ? (request.query as Record<string, any> | undefined)?.[name]
+      : location === 'cookie' ? ((request as any).cookies ?? parseCookieHeader(request.headers?.cookie))[name]
+      : undefined;
+    const first = Array.isArray(value) ? value[0] : value;
+    return typeof first === 'string' && first ? { type, value: first } : undefined;
+  }
+  const authorization = request.headers?.authorization?.trim();
+  if (!authorization) return undefined;
+  const index = authorization.indexOf(' ');
+  const authScheme = (index === -1 ? authorization : authorization.slice(0, index)).toLowerCase();
+  const value = index === -1 ? '' : authorization.slice(index + 1).trim();
+  if (!value) return undefined;
+  if (type === 'http') {
+    const expected = (scheme as OpenAPI.OpenAPIV3.HttpSecurityScheme).scheme?.toLowerCase();
+    if (authScheme !== expected) return undefined;
+    if (expected !== 'basic') return { type, scheme: expected, value };
+    const decoded = Buffer.from(value, 'base64').toString();
+    const separator = decoded.indexOf(':');
+    if (separator === -1) return undefined;
+    return { type, scheme: expected, value, username: decoded.slice(0, separator), password: decoded.slice(separator + 1) };
+  }
+  if (type === 'oauth2' || type === 'openIdConnect') return authScheme === 'bearer' ? { type, value } : undefined;
+  return undefined;
+}
+
+/**
+ * @description
+ * - Returns the `WWW-Authenticate` challenge of a security scheme (HTTP, OAuth2 and OpenID Connect schemes only).
+ */
+const getSecurityChallenge = (scheme: OpenAPI.SecurityScheme | undefined) => {
+  if (scheme?.type === 'http') return scheme.scheme ? `${scheme.scheme[0].toUpperCase()}${scheme.scheme.slice(1).toLowerCase()}` : undefined;
+  if (scheme?.type === 'oauth2' || scheme?.type === 'openIdConnect') return 'Bearer';
+  return undefined;
+}
+
+/**
+ * @description
+ * - Returns the scopes granted by an auth result (its `scopes`, as an array or a space-delimited string).
+ */
+const getGrantedScopes = (result: any): string[] => {
+  const scopes = isObject(result) ? result.scopes : undefined;
+  if (typeof scopes === 'string') return scopes.split(/\s+/).filter(Boolean);
+  return Array.isArray(scopes) ? scopes.map(String) : [];
+}
+
+/**
+ * @description
+ * - Evaluates the security requirements of an operation: the request is authorized when all schemes of one requirement (AND) are verified and grant the required scopes, for any of the requirements (OR).
+ * - Each scheme is verified at most once per request. Returns the auth results of the satisfied requirement, or a `401` error (no requirement could be authenticated) or `403` error (authenticated, but missing scopes).
+ * @example
+ * ```typescript
+ * await authorizeRequest(request, [{ bearerAuth: ['users:read'] }, { apiKey: [] }], { schemes, verifiers }) // { auth: { apiKey: { service: 'internal' } } }
+ * ```
+ */
+export const authorizeRequest = async (request: FastifyRequest, requirements: OpenAPI.SecurityRequirement[], { schemes, verifiers }: { schemes: Record<string, OpenAPI.SecurityScheme>, verifiers: SecurityVerifiers }): Promise<{ auth: Record<string, any>, error?: undefined } | { auth?: undefined, error: SecurityError }> => {
+  if (requirements.length === 0) return { auth: {} };
+  const results = new Map<string, Promise<any>>();
+  const verify = (name: string) => {
+    if (!results.has(name)) results.set(name, (async () => {
+      const credentials = schemes[name] ? getSecurityCredentials(schemes[name], request) : undefined;
+      if (credentials === undefined || !verifiers[name]) return undefined;
+      return verifiers[name](credentials, { request, name, scheme: schemes[name] });
+    })());
+    return results.get(name)!;
+  }
+  let missingScopes: string[] | undefined;
+  for (const requirement of requirements) {
+    const auth: Record<string, any> = {};
+    const missing: string[] = [];
+    let authenticated = true;
+    for (const [name, scopes] of Object.entries(requirement)) {
+      const result = await verify(name);
+      if (!result) {
+        authenticated = false;
+        break;
+      }
+      auth[name] = result;
+      const granted = getGrantedScopes(result);
+      missing.push(...(scopes ?? []).filter(scope => !granted.includes(scope)));
+    }
+    if (!authenticated) continue;
+    if (missing.length === 0) return { auth };
+    if (!missingScopes || missing.length < missingScopes.length) missingScopes = missing;
+  }
+  if (missingScopes) return { error: { statusCode: 403, challenges: [], missingScopes } };
+  const challenges = requirements.flatMap(requirement => Object.keys(requirement).map(name => getSecurityChallenge(schemes[name])));
+  return { error: { statusCode: 401, challenges: [...new Set(challenges.filter((challenge): challenge is string => !!challenge))], missingScopes: [] } };
+}
+
+export const onSecurityError = (request: FastifyRequest, reply: FastifyReply, error: SecurityError) => {
+  if (error.statusCode === 403) return reply.status(403).send({ error: "Forbidden", missingScopes: error.missingScopes });
+  if (error.challenges.length > 0) reply.header('www-authenticate', error.challenges.join(', '));
+  return reply.status(401).send({ error: "Unauthorized" });
+}
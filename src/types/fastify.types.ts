@@ -1,4 +1,30 @@
-import { FastifyReply, FastifyRequest, RouteGenericInterface } from "fastify";
+import { ContextConfigDefault, FastifyError, FastifyReply, FastifyRequest, FastifySchema, FastifyTypeProviderDefault, HookHandlerDoneFunction, RawReplyDefaultExpression, RawRequestDefaultExpression, RawServerDefault, RouteGenericInterface } from "fastify";
 
-export type OperatorMethod<T extends RouteGenericInterface, R> = (request:FastifyRequest<T>, reply: FastifyReply<T>) => Promise<R>
+export type OperatorMethod<T extends RouteGenericInterface, R, Request = {}> = (request:FastifyRequest<T> & Request, reply: OperatorReply<T, R>) => Promise<R | FastifyReply<T>>
 
+/**
+ * `FastifyReply` whose `send` accepts any declared response body until `code`/`status` narrows it to a single status.
+ */
+export type OperatorReply<T extends RouteGenericInterface, R> = FastifyReply<T, RawServerDefault, RawRequestDefaultExpression, RawReplyDefaultExpression, ContextConfigDefault, FastifySchema, FastifyTypeProviderDefault, R>
+
+/**
+ * A hook that is either `async`, or calls Fastify's `done` callback (Fastify rejects `async` hooks declaring `done`).
+ */
+export type OperatorHook<T extends RouteGenericInterface, R, Request = {}> = (request: FastifyRequest<T> & Request, reply: OperatorReply<T, R>, done: HookHandlerDoneFunction) => Promise<unknown> | void
+
+/**
+ * A hook receiving the payload, resolving with (or passing to `done`) the payload to continue with (`R` before serialization, the serialized payload in `onSend`).
+ */
+export type OperatorPayloadHook<T extends RouteGenericInterface, R, Request = {}, Payload = R> = (request: FastifyRequest<T> & Request, reply: OperatorReply<T, R>, payload: Payload, done: (error: FastifyError | null, payload?: Payload) => void) => Promise<unknown> | void
+
+/**
+ * The route-level Fastify lifecycle hooks of an operation, typed like its handler.
+ */
+export type OperatorHooks<T extends RouteGenericInterface, R, Request = {}> = {
+  onRequest?: OperatorHook<T, R, Request>[],
+  preValidation?: OperatorHook<T, R, Request>[],
+  preHandler?: OperatorHook<T, R, Request>[],
+  preSerialization?: OperatorPayloadHook<T, R, Request>[],
+  onSend?: OperatorPayloadHook<T, R, Request, unknown>[],
+  onResponse?: OperatorHook<T, R, Request>[],
+}
@@ -1,29 +1,64 @@
 import {OpenAPI} from ".";
-import { OperatorMethod } from "./fastify.types";
+import { OperatorHooks, OperatorMethod } from "./fastify.types";
 import type { 
+  CookieParametersToRecord,
+  DocumentOperation,
+  DocumentOperationIds,
+  DocumentOperations,
+  HeaderParametersToRecord,
+  OperationToClientRequest,
+  OperationToClientResponse,
   ParametersToRecord,
   QueryParametersToRecord,
   RequestBodyToRecord,
   ResponseToRecord,
+  ResponseToStatusRecord,
+  RoutesToOperations,
+  SecurityToAuth,
 } from "./utils.types"
 
 export type Params<T extends OpenAPI.Operator> = T['parameters'] extends OpenAPI.Parameter[] ? ParametersToRecord<T['parameters']> : never;
 export type QueryParams<T extends OpenAPI.Operator> = T['parameters'] extends OpenAPI.Parameter[] ? QueryParametersToRecord<T['parameters']> : never;
+export type Cookies<T extends OpenAPI.Operator> = T['parameters'] extends OpenAPI.Parameter[] ? CookieParametersToRecord<T['parameters']> : {};
+export type Headers<T extends OpenAPI.Operator> = T['parameters'] extends OpenAPI.Parameter[] ? HeaderParametersToRecord<T['parameters']> : {};
 export type RequestBody<T extends OpenAPI.Operator> = T['requestBody'] extends OpenAPI.RequestBody ? RequestBodyToRecord<T['requestBody']> : never;
 export type Response<T extends OpenAPI.Operator> = ResponseToRecord<T>
-export type All<T extends OpenAPI.Operator> = {
+export type Replies<T extends OpenAPI.Operator> = ResponseToStatusRecord<T>
+export type Auth<T extends OpenAPI.Operator, Results = {}> = SecurityToAuth<T['security'], Results>
+export type All<T extends OpenAPI.Operator, Results = {}> = {
   Params: Params<T>,
   QueryParams: QueryParams<T>,
+  Cookies: Cookies<T>,
+  Headers: Headers<T>,
   RequestBody: RequestBody<T>,
   Response: Response<T>,
+  Replies: Replies<T>,
+  Auth: Auth<T, Results>,
 }
 
-export type Method<T extends OpenAPI.Operator> = OperatorMethod<{
+type RouteGeneric<T extends OpenAPI.Operator> = {
   Params: Params<T>,
   Body: RequestBody<T>,
   Querystring: QueryParams<T>,
-  Response: Response<T>,
-}, Response<T>>
+  Headers: Headers<T>,
+  Reply: Replies<T>,
+}
+
+type RequestDecorations<T extends OpenAPI.Operator, Results> = {
+  cookies: Cookies<T>,
+  auth: Auth<T, Results>,
+}
+
+export type Method<T extends OpenAPI.Operator, Results = {}> = OperatorMethod<RouteGeneric<T>, Response<T>, RequestDecorations<T, Results>>
+
+export type Hooks<T extends OpenAPI.Operator, Results = {}> = OperatorHooks<RouteGeneric<T>, Response<T>, RequestDecorations<T, Results>>
+
+export type OperationIds<T> = DocumentOperationIds<T>;
+export type OperationById<T, Id extends string> = DocumentOperation<T, Id>;
+export type Operations<T> = DocumentOperations<T>;
+export type RouteOperations<Routes> = RoutesToOperations<Routes>;
+export type ClientRequest<T> = OperationToClientRequest<T>;
+export type ClientResponse<T> = OperationToClientResponse<T>;
 
 export type Refs<T> = T extends { components: infer Components }
   ? {
@@ -155,8 +155,8 @@ export namespace OpenAPIV3_1 {
     type?: NonArraySchemaObjectType;
   }
 
-  interface MixedSchemaObject extends BaseSchemaObject {
-    type?: (ArraySchemaObjectType | NonArraySchemaObjectType)[];
+  export interface MixedSchemaObject extends BaseSchemaObject {
+    type?: readonly (ArraySchemaObjectType | NonArraySchemaObjectType)[];
     items?: ReferenceObject | SchemaObject;
   }
 
@@ -180,6 +180,22 @@ export namespace OpenAPIV3_1 {
       externalDocs?: ExternalDocumentationObject;
       xml?: XMLObject;
       const?: any;
+      $id?: string;
+      $anchor?: string;
+      $defs?: Record<string, SchemaObject>;
+      prefixItems?: readonly (ReferenceObject | SchemaObject)[];
+      contains?: ReferenceObject | SchemaObject;
+      minContains?: number;
+      maxContains?: number;
+      patternProperties?: Record<string, ReferenceObject | SchemaObject>;
+      propertyNames?: ReferenceObject | SchemaObject;
+      unevaluatedProperties?: boolean | ReferenceObject | SchemaObject;
+      unevaluatedItems?: boolean | ReferenceObject | SchemaObject;
+      dependentRequired?: Record<string, readonly string[]>;
+      dependentSchemas?: Record<string, ReferenceObject | SchemaObject>;
+      if?: ReferenceObject | SchemaObject;
+      then?: ReferenceObject | SchemaObject;
+      else?: ReferenceObject | SchemaObject;
     }
   >;
 
@@ -1,14 +1,17 @@
-import { OpenAPIV3 } from "./lib/openapi-types";
+import { OpenAPIV3, OpenAPIV3_1 } from "./lib/openapi-types";
 import { OperatorName } from "./router.types";
 
-export type {OpenAPIV3}
-export type Document = OpenAPIV3.Document;
+export type {OpenAPIV3, OpenAPIV3_1}
+export type Document = OpenAPIV3.Document | OpenAPIV3_1.Document;
 export type Get = OpenAPIV3.HttpMethods;
-export type Item = OpenAPIV3.PathItemObject;
+export type Item = OpenAPIV3.PathItemObject | OpenAPIV3_1.PathItemObject;
 export type PathBase = Omit<Item, OperatorName>;
-export type Operator = OpenAPIV3.OperationObject;
-export type Parameter = OpenAPIV3.ParameterObject;
-export type RequestBody = OpenAPIV3.RequestBodyObject;
-export type Components = OpenAPIV3.ComponentsObject;
-export type Schema = OpenAPIV3.SchemaObject;
-export type Response = OpenAPIV3.ResponseObject;
\ No newline at end of file
+export type Operator = OpenAPIV3.OperationObject | OpenAPIV3_1.OperationObject;
+export type Parameter = OpenAPIV3.ParameterObject | OpenAPIV3_1.ParameterObject;
+export type RequestBody = OpenAPIV3.RequestBodyObject | OpenAPIV3_1.RequestBodyObject;
+export type Components = OpenAPIV3.ComponentsObject | OpenAPIV3_1.ComponentsObject;
+export type Schema = OpenAPIV3.SchemaObject | OpenAPIV3_1.SchemaObject;
+export type Response = OpenAPIV3.ResponseObject | OpenAPIV3_1.ResponseObject;
+export type Webhooks = NonNullable<OpenAPIV3_1.Document['webhooks']>;
+export type SecurityScheme = OpenAPIV3.SecuritySchemeObject | OpenAPIV3_1.SecuritySchemeObject;
+export type SecurityRequirement = OpenAPIV3.SecurityRequirementObject | OpenAPIV3_1.SecurityRequirementObject;
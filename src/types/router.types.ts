@@ -1,9 +1,10 @@
-import { ErrorObject } from "ajv";
+import { ErrorObject, ValidateFunction } from "ajv";
 import { FromSpec, OpenAPI } from ".";
-import { OPERATOR_NAMES } from "../utils";
+import { OPERATION_HOOK_NAMES, OPERATOR_NAMES } from "../utils";
 import { Options as AjvOptions } from "ajv";
-import { DeepAnyPartial, DeepPartial } from "./utils.types";
-import { FastifyReply, FastifyRequest } from "fastify";
+import { DeepAnyPartial, DeepPartial, OperatorWithDefaults } from "./utils.types";
+import { FastifyReply, FastifyRequest, RouteShorthandOptions } from "fastify";
+import type { Readable } from "stream";
 
 type RouterSharedOptions = {
   /**
@@ -33,7 +34,22 @@ type RouterSharedOptions = {
    * - Whether to exclude the route from the OpenAPI specification.
    * @default false
    */
-  autoParse?: AutoParseConfig
+  autoParse?: AutoParseConfig,
+  /**
+   * @description
+   * - Whether to hand the operation to Fastify as its native `body`, `querystring`, `params`, `headers` and `response` schemas.
+   * - Fastify then validates and coerces requests, and serializes (and strips) responses, with its own compilers instead of the `autoValidate`/`autoParse` hooks.
+   * - Cookie parameters have no native counterpart and are not validated in this mode.
+   * @default false
+   */
+  nativeSchema?: boolean,
+  /**
+   * @description
+   * - How request bodies and parameters are normalized while they are validated by `autoValidate`/`autoParse`, so the handler sees the normalized payload.
+   * - `true` applies defaults, removes additional properties and coerces scalar types.
+   * @default false
+   */
+  normalize?: NormalizeConfig
 }
 
 
@@ -49,10 +65,58 @@ export type RouterOptions = RouteOptions & {
    * @param spec - The OpenAPI response specification.
    * @returns The modified OpenAPI response specification.
    */
-  specificationResolver?: (spec: OpenAPI.Document) => OpenAPI.Document
+  specificationResolver?: (spec: OpenAPI.Document) => OpenAPI.Document,
+  /**
+   * @description
+   * - The verifiers of the document's `components.securitySchemes`, keyed by scheme name.
+   * - When set, every operation's `security` requirements (or the document's global ones) are enforced before validation: the request is answered with `401` when no alternative is satisfied, or `403` when the credentials are valid but lack the required scopes.
+   * - A verifier returns the auth result (exposed as `request.auth[name]`), or a falsy value when the credentials are invalid. Scopes are read from the `scopes` of the result (an array or a space-delimited string).
+   * @example
+   * ```typescript
+   * {
+   *   bearerAuth: async ({ value }) => sessions.get(value), // { userId: 1, scopes: ['users:read'] } | undefined
+   *   apiKey: ({ value }) => value === process.env.API_KEY && { service: 'internal' }
+   * }
+   * ```
+   */
+  security?: SecurityVerifiers,
+  /**
+   * @description
+   * - Whether to serve the generated specification (as JSON and YAML) and a self-contained HTML docs page, registered by `initialize()`.
+   * - The routes are not part of the specification, and are answered with an `ETag` (and `304` for matching `If-None-Match` requests).
+   * @default false
+   * @example
+   * ```typescript
+   * { json: '/openapi.json', yaml: '/openapi.yaml', ui: '/docs' }
+   * ```
+   */
+  docs?: DocsConfig,
+  /**
+   * @description
+   * - The lint rules `initialize()` runs over the registered routes (see `router.lint()`): `warn` violations are logged, `error` violations make `initialize()` throw.
+   * - `strict` turns every violation into an error, `false` disables linting.
+   * @default true (every rule set to `warn`)
+   * @example
+   * ```typescript
+   * { strict: process.env.CI === 'true', rules: { 'unique-operation-ids': 'error', 'responses': 'off' } }
+   * ```
+   */
+  lint?: LintConfig,
+  /**
+   * @description
+   * - What `initialize()` does with the operations of the document's `paths` that no route implements (see `router.implement()`): `ignore` them, `warn` about them (through `app.log`), throw an `error` listing them, or register a `stub` answering `501 Not Implemented`.
+   * @default 'warn' once `router.implement()` or `router.mock()` is used, 'ignore' otherwise
+   */
+  unimplemented?: 'ignore' | 'warn' | 'error' | 'stub',
+  /**
+   * @description
+   * - Whether `initialize()` registers the operations of the document's `paths` that no route implements with mock handlers (see `router.mock()`).
+   * @default false
+   */
+  mock?: MockConfig
 }
 
-export type RouteOptions = RouterSharedOptions & {
+export type RouteOptions = RouterSharedOptions & OperationHooks & {
   /**
    * @description
    * - Whether to exclude the operator from the OpenAPI specification.
@@ -61,16 +125,49 @@ export type RouteOptions = RouterSharedOptions & {
   excludeFromSpecification?: boolean
 }
 
-export type OperatorOptions = Omit<RouteOptions, 'prefix'>;
+/**
+ * @description
+ * - The options of an operator, with hooks typed from its operation.
+ */
+export type OperatorOptions<T extends OpenAPI.Operator = OpenAPI.Operator, Results = any, Defaults extends boolean = boolean> = Omit<RouteOptions, 'prefix' | 'normalize' | OperationHookName> & {
+  normalize?: NormalizeConfig<Defaults>
+} & OperationHooks<WithDefaults<T, Defaults>, Results>;
+
+/**
+ * The operation as its handler sees it: when an operator's `normalize` option applies defaults (`true` or `{ defaults: true }`), the defaulted body properties are present, an undetermined `boolean` does not apply them.
+ */
+export type WithDefaults<T extends OpenAPI.Operator, Defaults extends boolean> = [Defaults] extends [true] ? OperatorWithDefaults<T> : T;
+
+export type OperationHookName = typeof OPERATION_HOOK_NAMES[number];
+
+/**
+ * @description
+ * - The hooks of Fastify's route options, as registered with the route of each operation.
+ */
+export type RouteHookOptions = Pick<RouteShorthandOptions, OperationHookName>;
+
+/**
+ * @description
+ * - The Fastify lifecycle hooks registered with the route of each operation, after the router's own hooks.
+ * - The hooks of the router, route and operator are all run, in that order.
+ * @example
+ * ```typescript
+ * {
+ *   preHandler: [async (request, reply) => { if (!request.headers['x-tenant']) return reply.code(400).send({ error: 'Missing tenant' }) }],
+ *   onResponse: [async (request, reply) => audit.log(request.routeOptions.url, reply.statusCode)]
+ * }
+ * ```
+ */
+export type OperationHooks<T extends OpenAPI.Operator = OpenAPI.Operator, Results = any> = FromSpec.Hooks<T, Results>;
 
 export type RefOptions<T, S extends FromSpec.Refs<T>> = {
   useRef?: boolean
   override?: DeepAnyPartial<FromSpec.ComponentFromRef<T, S>>
 }
 
-export type Route = {
+export type Route<Methods extends OperatorRecord = OperatorRecord> = {
   path: string;
-  methods: OperatorRecord;
+  methods: Methods;
   options?: RouteOptions;
 }
 
@@ -79,17 +176,28 @@ export type OperatorName = typeof OPERATOR_NAMES[number];
 
 export type Operator<T extends OpenAPI.Operator> = {
   specification: T,
-  handler: FromSpec.Method<T>,
-  options?: OperatorOptions
+  handler: FromSpec.Method<T, any>,
+  options?: OperatorOptions<T>
 }
 
 export type OperatorRecord = {
   [K in OperatorName]?: Operator<OpenAPI.Operator>
 }
 
+export type OperationValidators = {
+  /** request body validators, keyed by content type */
+  request: Record<string, ValidateFunction>,
+  /** response validators, keyed by status code and content type */
+  response: Record<string, Record<string, ValidateFunction>>,
+  /** parameter validators, keyed by location and name (e.g. `query:limit`) */
+  parameters: Record<string, ValidateFunction>,
+}
+
 export type AutoLoadConfig = {
   include?: string | string[],
   exclude?: string | string[],
+  /** the directory `include`/`exclude` are relative to, defaults to the directory of the file calling `autoload` */
+  cwd?: string,
 }
 
 export type AutoValidateConfig = boolean | ({
@@ -121,6 +229,7 @@ export type AutoValidateRequestResponseConfig = boolean | {
   /**
    * @description
    * - A function that is called when an error occurs during validation.
+   * - For requests it sends the error reply. For responses (validated in the `preSerialization` hook) it sets the status and returns the payload replacing the invalid one, or throws to hand the error to Fastify's error handler.
    * - If not provided, the default error response will be used.
    * @default 
    * ```typescript
@@ -128,12 +237,18 @@ export type AutoValidateRequestResponseConfig = boolean | {
    * ```
    * @example
    * ```typescript
+   * // request
    * (request, reply, errors) => {
    *   return reply.status(400).send({ error: "Invalid Request Body", errors });
    * }
+   * // response
+   * (request, reply, errors) => {
+   *   reply.status(502);
+   *   return { error: "Invalid Response", errors };
+   * }
    * ```
    */
-  onError?: (request: FastifyRequest, reply:FastifyReply, errors?: ErrorObject<any>[]) => FastifyReply | undefined,
+  onError?: (request: FastifyRequest, reply:FastifyReply, errors?: ErrorObject<any>[]) => unknown,
   /**@deprecated use `onError` instead */
   errorResponse?: {
     status: number,
@@ -141,13 +256,220 @@ export type AutoValidateRequestResponseConfig = boolean | {
   },
 }
 
+export type NormalizeConfig<Defaults extends boolean = boolean> = Defaults | {
+  /**
+   * @description
+   * - Whether to apply the `default` of the schemas to missing properties and parameters.
+   * - When set on an operator, the handler's body types the properties with a `default` as present.
+   * @default false
+   */
+  defaults?: Defaults,
+  /**
+   * @description
+   * - What to do with properties that object schemas do not declare (unless the schema sets `additionalProperties` itself): `keep` them, `remove` them or `reject` the request.
+   * - Members of `allOf` are left open, since closing them would reject the properties declared by their siblings.
+   * @default 'keep'
+   */
+  additionalProperties?: 'keep' | 'remove' | 'reject',
+  /**
+   * @description
+   * - Whether to coerce the scalar types of request bodies (e.g. `"1"` to `1`), parameters are always coerced by `autoParse`.
+   * @default false
+   */
+  coerceTypes?: boolean,
+}
+
 export type AutoParseConfig = boolean | Record<'parameters', (
-  boolean | {
-    parse?: boolean,
-    onError?: (request: FastifyRequest, reply: FastifyReply, errors: {
-      name: string,
-      in: 'query' | 'path' | 'header',
-      message:string
-    }[]) => FastifyReply | undefined
-  }
-)>;
\ No newline at end of file
+  boolean | AutoParseParametersConfig
+)>;
+
+export type AutoParseParametersConfig = {
+  /**
+   * @description
+   * - Whether to coerce and validate the path, query, header and cookie parameters against their schemas.
+   * - If true, the parameters will be parsed via the preValidation hook.
+   * @default false
+   */
+  parse?: boolean,
+  /**
+   * @description
+   * - A function that is called when one or more parameters are invalid.
+   * - If not provided, the default error response will be used.
+   * @default
+   * ```typescript
+   * {status: 400, payload: {error: "Invalid Request Parameters", errors: ParameterError[]}}
+   * ```
+   * @example
+   * ```typescript
+   * (request, reply, errors) => {
+   *   return reply.status(422).send({ error: "Invalid Parameters", errors });
+   * }
+   * ```
+   */
+  onError?: (request: FastifyRequest, reply: FastifyReply, errors: ParameterError[]) => FastifyReply | undefined
+}
+
+export type ParameterError = {
+  name: string,
+  in: 'query' | 'path' | 'header' | 'cookie',
+  message: string
+}
+
+/**
+ * @description
+ * - A part of a `multipart/form-data` request body.
+ */
+export type MultipartPart = {
+  /** the name of the form field (from `Content-Disposition`) */
+  name: string,
+  /** the file name, if the part is a file */
+  filename?: string,
+  /** the `Content-Type` of the part, if any */
+  contentType?: string,
+  /** the headers of the part, with lower-cased names */
+  headers: Record<string, string>,
+  data: Buffer,
+}
+
+/**
+ * @description
+ * - A file uploaded in a `multipart/form-data` request body (a property with `format: binary`).
+ */
+export type MultipartFile = {
+  /** the name of the form field */
+  fieldname: string,
+  filename?: string,
+  /** the content type of the part, `application/octet-stream` if the client did not send one */
+  mimetype: string,
+  /** the size of the file in bytes */
+  size: number,
+  data: Buffer,
+  /** returns a readable stream of the file contents */
+  stream: () => Readable,
+}
+
+/**
+ * @description
+ * - The credentials extracted from a request for a security scheme: `value` is the API key, the bearer token, the raw credentials of other HTTP schemes, or the SHA-256 fingerprint of the client certificate (`mutualTLS`).
+ */
+export type SecurityCredentials =
+  | { type: 'apiKey', value: string }
+  | { type: 'http', scheme: string, value: string, username?: string, password?: string }
+  | { type: 'oauth2' | 'openIdConnect' | 'mutualTLS', value: string }
+
+export type SecurityVerifier<R = any> = (credentials: SecurityCredentials, context: { request: FastifyRequest, name: string, scheme: OpenAPI.SecurityScheme }) => R | Promise<R>
+
+export type SecurityVerifiers = Record<string, SecurityVerifier>
+
+/**
+ * @description
+ * - The auth results of the given verifiers, keyed by scheme name.
+ */
+export type SecurityResults<V extends SecurityVerifiers> = {
+  [K in keyof V]: Exclude<Awaited<ReturnType<V[K]>>, false | null | undefined | '' | 0>
+}
+
+export type SecurityError = {
+  statusCode: 401 | 403,
+  /** the `WWW-Authenticate` challenges of the failed HTTP schemes */
+  challenges: string[],
+  /** the scopes missing from the best alternative (403 only) */
+  missingScopes: string[]
+}
+
+export type DocsConfig = boolean | {
+  /**
+   * @description The path of the JSON specification, `false` to not serve it.
+   * @default '/openapi.json'
+   */
+  json?: string | false,
+  /**
+   * @description The path of the YAML specification, `false` to not serve it.
+   * @default '/openapi.yaml'
+   */
+  yaml?: string | false,
+  /**
+   * @description The path of the HTML docs page (which embeds the specification and its assets, so it works offline), `false` to not serve it.
+   * @default '/docs'
+   */
+  ui?: string | false,
+}
+
+/**
+ * @description
+ * - `path-parameters`: every `:param` of the path is declared as an `in: path` parameter, and every declared path parameter appears in the path.
+ * - `unique-operation-ids`: no two operations share an `operationId`.
+ * - `responses`: every operation declares at least one response.
+ * - `resolved-refs`: every `$ref` of an operation, and every `router.ref()` path, resolves in the document.
+ * - `consistent-path-parameters`: routes whose paths only differ by parameter names use the same names.
+ */
+export type LintRuleName = 'path-parameters' | 'unique-operation-ids' | 'responses' | 'resolved-refs' | 'consistent-path-parameters';
+
+export type LintLevel = 'off' | 'warn' | 'error';
+
+export type LintConfig = boolean | {
+  /** throw (listing every violation) when any rule is violated, regardless of its level */
+  strict?: boolean,
+  rules?: Partial<Record<LintRuleName, LintLevel>>,
+}
+
+export type LintViolation = {
+  rule: LintRuleName,
+  level: Exclude<LintLevel, 'off'>,
+  message: string,
+  /** the operation the violation belongs to, if any */
+  method?: OperatorName,
+  path?: string,
+}
+
+export type MockConfig = boolean | {
+  /**
+   * @description The request header picking the status code of the mocked response (e.g. `404`, `4XX` or `default`).
+   * @default 'x-mock-status'
+   */
+  statusHeader?: string,
+  /**
+   * @description The query parameter picking the status code of the mocked response.
+   * @default '__status'
+   */
+  statusQuery?: string,
+  /**
+   * @description The request header picking the named example (of the media type's `examples`) of the mocked response.
+   * @default 'x-mock-example'
+   */
+  exampleHeader?: string,
+  /**
+   * @description The query parameter picking the named example of the mocked response.
+   * @default '__example'
+   */
+  exampleQuery?: string,
+}
+
+export type MockResponse = {
+  statusCode: number,
+  /** the media type of the body, if the response declares content */
+  contentType?: string,
+  body?: any,
+}
+
+export type ClientOptions = {
+  /** the headers sent with every request (e.g. `authorization`), the headers of a request take precedence */
+  headers?: Record<string, string>,
+  /**
+   * @description
+   * - Whether to check responses against the operation: a status the operation does not declare, or a body that does not match the schema of its response, throws.
+   * @default false
+   */
+  validateResponse?: boolean,
+}
+
+export type ClientOperation<T> = {} extends FromSpec.ClientRequest<T>
+  ? (request?: FromSpec.ClientRequest<T>, options?: ClientOptions) => Promise<FromSpec.ClientResponse<T>>
+  : (request: FromSpec.ClientRequest<T>, options?: ClientOptions) => Promise<FromSpec.ClientResponse<T>>;
+
+/**
+ * The in-process client returned by `router.client()`, with a method per `operationId`.
+ */
+export type Client<Operations> = {
+  [Id in keyof Operations]: ClientOperation<Operations[Id]>
+};
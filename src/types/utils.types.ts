@@ -1,4 +1,6 @@
 import * as OpenAPI from "./openapi.types";
+import type { MultipartFile, OperatorName } from "./router.types";
+import type { LightMyRequestResponse } from "fastify";
 
 
 export type StringTypeToType<T> =
@@ -12,27 +14,50 @@ export type StringTypeToType<T> =
   : any;
 
 export type ParametersToRecord<T extends OpenAPI.Parameter[]> = {
-  [K in T[number]as K extends { in: 'path' } ? K['name'] : never]: K extends { schema: { type: infer Type } }
-  ? StringTypeToType<Type>
+  [K in T[number]as K extends { in: 'path' } ? K['name'] : never]: K extends { schema: infer Schema }
+  ? SchemaToType<Schema>
   : string
 }
 
 export type QueryParametersToRecord<T extends OpenAPI.Parameter[]> = {
-  [K in T[number]as K extends { in: 'query' } ? K['name'] : never]: K extends { schema: { type: infer Type } }
-  ? StringTypeToType<Type>
+  [K in T[number]as K extends { in: 'query' } ? K['name'] : never]: K extends { schema: infer Schema }
+  ? SchemaToType<Schema>
   : any
 }
 
+export type CookieParametersToRecord<T extends OpenAPI.Parameter[]> = {
+  [K in T[number]as K extends { in: 'cookie', required: true } ? K['name'] : never]: K extends { schema: infer Schema }
+  ? SchemaToType<Schema>
+  : string
+} & {
+  [K in T[number]as K extends { in: 'cookie', required: true } ? never : K extends { in: 'cookie' } ? K['name'] : never]?: K extends { schema: infer Schema }
+  ? SchemaToType<Schema>
+  : string
+}
+
+export type HeaderParametersToRecord<T extends OpenAPI.Parameter[]> = {
+  [K in T[number]as K extends { in: 'header', required: true } ? Lowercase<K['name']> : never]: K extends { schema: infer Schema }
+  ? SchemaToType<Schema>
+  : string
+} & {
+  [K in T[number]as K extends { in: 'header', required: true } ? never : K extends { in: 'header' } ? Lowercase<K['name']> : never]?: K extends { schema: infer Schema }
+  ? SchemaToType<Schema>
+  : string
+}
+
 export type SchemaToType<Schema> =
-  Schema extends { $ref: string }
+  Schema extends { nullable: true }
+  ? SchemaToType<Omit<Schema, 'nullable'>> | null
+
+  : Schema extends { $ref: string }
   ? any
-  : Schema extends { oneOf: infer OneOf extends any[] }
+  : Schema extends { oneOf: infer OneOf extends readonly any[] }
   ? SchemaToOneOf<OneOf>
 
-  : Schema extends { anyOf: infer AnyOf extends any[] }
+  : Schema extends { anyOf: infer AnyOf extends readonly any[] }
   ? SchemaToAnyOf<AnyOf>
 
-  : Schema extends { allOf: infer AllOf extends any[] }
+  : Schema extends { allOf: infer AllOf extends readonly any[] }
   ? SchemaToAllOf<AllOf>
 
   : Schema extends { enum: infer EnumValues extends readonly any[] }
@@ -41,6 +66,15 @@ export type SchemaToType<Schema> =
   : Schema extends { const: infer ConstValue }
   ? ConstValue
 
+  : Schema extends { type: infer Types extends readonly any[] }
+  ? SchemaToTypeArray<Schema, Types[number]>
+
+  : Schema extends { prefixItems: infer PrefixItems extends readonly any[] }
+  ? [
+    ...SchemaToTuple<PrefixItems>,
+    ...(Schema extends { items: false } ? [] : Schema extends { items: infer Items } ? Array<SchemaToType<Items>> : any[])
+  ]
+
   : Schema extends { type: 'array'; items: infer Items }
   ? Array<SchemaToType<Items>>
 
@@ -78,15 +112,24 @@ export type SchemaToType<Schema> =
 
   : any;
 
-type SchemaToOneOf<T extends any[]> = T[number] extends infer Each
+type SchemaToOneOf<T extends readonly any[]> = T[number] extends infer Each
   ? SchemaToType<Each>
   : never;
 
-type SchemaToAnyOf<T extends any[]> = T[number] extends infer Each
+type SchemaToAnyOf<T extends readonly any[]> = T[number] extends infer Each
   ? SchemaToType<Each>
   : never;
 
-type SchemaToAllOf<T extends any[]> =
+type SchemaToTypeArray<Schema, Type> = Type extends any
+  ? SchemaToType<Omit<Schema, 'type'> & { type: Type }>
+  : never;
+
+type SchemaToTuple<T extends readonly any[]> =
+  T extends readonly [infer Head, ...infer Rest]
+  ? [SchemaToType<Head>, ...SchemaToTuple<Rest>]
+  : [];
+
+type SchemaToAllOf<T extends readonly any[]> =
   UnionToIntersection<SchemaToType<T[number]>>;
 
 
@@ -126,28 +169,260 @@ export type BodyToRecord<T extends OpenAPI.RequestBody> =
       }
     }
   }
-  ? SchemaToType<Schema>
+  ? MultipartSchemaToType<Schema>
   : any;
 
 export type RequestBodyToRecord<T extends OpenAPI.RequestBody> = BodyToRecord<T>;
 
+type IsBinarySchema<Schema> =
+  Schema extends { format: 'binary' }
+  ? true
+  : Schema extends { contentMediaType: string }
+  ? Schema extends { contentEncoding: string } ? false : true
+  : false;
+
+type MultipartFileValue<Schema> =
+  IsBinarySchema<Schema> extends true
+  ? MultipartFile
+  : Schema extends { type: 'array'; items: infer Items }
+  ? IsBinarySchema<Items> extends true ? MultipartFile[] : never
+  : never;
+
+type MultipartFileKey<Props> = {
+  [K in keyof Props]: [MultipartFileValue<Props[K]>] extends [never] ? never : K
+}[keyof Props];
+
+/**
+ * Types a `multipart/form-data` body like `SchemaToType`, with binary properties (`format: binary`) typed as the parsed `MultipartFile`s.
+ */
+export type MultipartSchemaToType<Schema> =
+  Schema extends { type: 'object'; properties: infer Props }
+  ? Omit<SchemaToType<Schema>, MultipartFileKey<Props>> & {
+    [K in MultipartFileKey<Props> as K extends RequiredKey<Schema, K> ? K : never]: MultipartFileValue<Props[K]>
+  } & {
+    [K in MultipartFileKey<Props> as K extends RequiredKey<Schema, K> ? never : K]?: MultipartFileValue<Props[K]>
+  }
+  : SchemaToType<Schema>;
+
+type DefaultedKey<Props> = {
+  [K in keyof Props]: Props[K] extends { default: any } ? K : never
+}[keyof Props];
+
+/**
+ * Marks the properties that declare a `default` as required (recursively), since they are filled in before the handler runs when defaults are applied (`normalize.defaults`).
+ */
+export type SchemaWithDefaults<Schema> =
+  Schema extends { type: 'object'; properties: infer Props }
+  ? Omit<Schema, 'properties' | 'required'> & {
+    properties: { [K in keyof Props]: SchemaWithDefaults<Props[K]> },
+    required: readonly (DefaultedKey<Props> | (Schema extends { required: infer Req extends readonly any[] } ? Req[number] : never))[]
+  }
+  : Schema extends { type: 'array'; items: infer Items }
+  ? Omit<Schema, 'items'> & { items: SchemaWithDefaults<Items> }
+  : Schema;
+
+/**
+ * The operation with the properties of its request body schemas that declare a `default` marked as required (see `SchemaWithDefaults`).
+ */
+export type OperatorWithDefaults<T extends OpenAPI.Operator> =
+  T extends { requestBody: { content: infer Content } }
+  ? Omit<T, 'requestBody'> & {
+    requestBody: Omit<T['requestBody'], 'content'> & {
+      content: { [K in keyof Content]: Content[K] extends { schema: infer Schema } ? Omit<Content[K], 'schema'> & { schema: SchemaWithDefaults<Schema> } : Content[K] }
+    }
+  }
+  : T;
+
+
+export type ResponseBodyToType<T> =
+  T extends { $ref: string }
+  ? any
+  : T extends {
+    content: {
+      'application/json': {
+        schema: infer Schema
+      }
+    }
+  }
+  ? SchemaToType<Schema>
+  : T extends { content: {} }
+  ? any
+  : void;
 
 export type ResponseToRecord<T> =
   T extends { responses: infer Responses }
   ? {
-    [K in keyof Responses]:
-    Responses[K] extends {
-      content: {
-        'application/json': {
-          schema: infer Schema
-        }
-      }
-    }
-    ? SchemaToType<Schema>
-    : never
+    [K in keyof Responses]: ResponseBodyToType<Responses[K]>
   }[keyof Responses]
   : never;
 
+type StatusCodeClass = 1 | 2 | 3 | 4 | 5;
+
+type StatusCodeToReplyKey<K> =
+  K extends number
+  ? K
+  : K extends `${infer Code extends number}`
+  ? Code
+  : Uppercase<K & string> extends `${infer Class extends StatusCodeClass}XX`
+  ? `${Class}xx`
+  : never;
+
+type DefaultReplyKeys<Responses> = Exclude<`${StatusCodeClass}xx`, StatusCodeToReplyKey<keyof Responses>>;
+
+/**
+ * Maps an operation's responses to a Fastify `Reply` record keyed by status code, so `reply.code(404)` narrows what `send` accepts.
+ * - `2XX`-style ranges map to Fastify's `2xx` keys.
+ * - `default` fills every status class that no declared range covers.
+ * - Responses without content map to `void`.
+ */
+export type ResponseToStatusRecord<T> =
+  T extends { responses: infer Responses }
+  ? {
+    [K in keyof Responses as StatusCodeToReplyKey<K>]: ResponseBodyToType<Responses[K]>
+  } & (Responses extends { default: infer Default } ? {
+    [K in DefaultReplyKeys<Responses>]: ResponseBodyToType<Default>
+  } : {})
+  : never;
+
+/**
+ * Maps an operation's `security` requirements to the union of the auth results each requirement yields, keyed by scheme name.
+ * - Schemes without a registered verifier map to `unknown`, the anonymous requirement (`{}`) and `security: []` map to `{}`.
+ * - Operations without `security` (inheriting the document's) map to the partial record of all results.
+ */
+export type SecurityToAuth<Security, Results> =
+  Security extends readonly []
+  ? {}
+  : Security extends readonly (infer Requirement)[]
+  ? Requirement extends any ? { [K in keyof Requirement]: K extends keyof Results ? Results[K] : unknown } : never
+  : Partial<Results>;
+
+export type DeepMutable<T> = T extends Function
+  ? T
+  : T extends object
+    ? { -readonly [K in keyof T]: DeepMutable<T[K]> }
+    : T;
+
+type DocumentPaths<T> = T extends { paths: infer Paths } ? Paths : {};
+
+type PathItemOperationNames<Item> = keyof Item & OperatorName;
+
+/**
+ * Prepends the `parameters` of a path item to those of one of its operations.
+ */
+type WithPathItemParameters<Item, Operation> =
+  Item extends { parameters: infer PathParameters extends readonly any[] }
+  ? Omit<Operation, 'parameters'> & {
+    parameters: [...PathParameters, ...(Operation extends { parameters: infer OperationParameters extends readonly any[] } ? OperationParameters : [])]
+  }
+  : Operation;
+
+/**
+ * The `operationId`s of the operations in a document's `paths`.
+ */
+export type DocumentOperationIds<T> = {
+  [P in keyof DocumentPaths<T>]: {
+    [M in PathItemOperationNames<DocumentPaths<T>[P]>]: DocumentPaths<T>[P][M] extends { operationId: infer Id extends string } ? Id : never
+  }[PathItemOperationNames<DocumentPaths<T>[P]>]
+}[keyof DocumentPaths<T>];
+
+/**
+ * The operation of a document's `paths` with the given `operationId` (including the parameters of its path item), made mutable so it satisfies `OpenAPI.Operator`.
+ */
+export type DocumentOperation<T, Id> = DeepMutable<{
+  [P in keyof DocumentPaths<T>]: {
+    [M in PathItemOperationNames<DocumentPaths<T>[P]>]: DocumentPaths<T>[P][M] extends { operationId: Id } ? WithPathItemParameters<DocumentPaths<T>[P], DocumentPaths<T>[P][M]> : never
+  }[PathItemOperationNames<DocumentPaths<T>[P]>]
+}[keyof DocumentPaths<T>]>;
+
+
+/**
+ * The operations of a document's `paths`, keyed by `operationId`.
+ */
+export type DocumentOperations<T> = {
+  [Id in DocumentOperationIds<T>]: DocumentOperation<T, Id>
+};
+
+type RouteSpecifications<Routes> = Routes extends { methods: infer Methods }
+  ? { [M in keyof Methods]: Methods[M] extends { specification: infer Specification } ? Specification : never }[keyof Methods]
+  : never;
+
+/**
+ * The operations of routes (as returned by `router.route()`), keyed by `operationId`.
+ */
+export type RoutesToOperations<Routes> = {
+  [Specification in RouteSpecifications<Routes> as Specification extends { operationId: infer Id extends string } ? Id : never]: Specification
+};
+
+type ParameterToType<Parameter> = Parameter extends { schema: infer Schema } ? SchemaToType<Schema> : any;
+
+type ClientParametersToRecord<Parameters extends readonly any[], In extends string> = {
+  [K in Parameters[number] as K extends { in: In, required: true } ? K['name'] : never]: ParameterToType<K>
+} & {
+  [K in Parameters[number] as K extends { in: In, required: true } ? never : K extends { in: In } ? K['name'] : never]?: ParameterToType<K>
+};
+
+/**
+ * A part of a client request: required when one of its keys is, optional otherwise, and any record when the operation declares none (e.g. `$ref` parameters).
+ */
+type ClientRequestPart<Key extends string, Part> =
+  [keyof Part] extends [never]
+  ? { [K in Key]?: Record<string, any> }
+  : {} extends Part
+  ? { [K in Key]?: Part }
+  : { [K in Key]: Part };
+
+type ClientBodyToType<Body> =
+  Body extends { content: { 'application/json': { schema: infer Schema } } }
+  ? SchemaToType<Schema>
+  : Body extends { content: { 'application/x-www-form-urlencoded': { schema: infer Schema } } }
+  ? SchemaToType<Schema>
+  : any;
+
+type ClientRequestBody<T> =
+  T extends { requestBody: infer Body }
+  ? Body extends { required: true } ? { body: ClientBodyToType<Body> } : { body?: ClientBodyToType<Body> }
+  : { body?: never };
+
+/**
+ * Maps an operation to the request of its `router.client()` method.
+ * - Path parameters are required, query, header and cookie parameters when they are declared `required`.
+ * - The body is typed from the JSON (or form) media type of the request body, and required when the request body is.
+ */
+export type OperationToClientRequest<T> = (
+  T extends { parameters: infer Parameters extends readonly any[] }
+  ? ClientRequestPart<'params', ClientParametersToRecord<Parameters, 'path'>>
+  & ClientRequestPart<'query', ClientParametersToRecord<Parameters, 'query'>>
+  & ClientRequestPart<'headers', ClientParametersToRecord<Parameters, 'header'>>
+  & ClientRequestPart<'cookies', ClientParametersToRecord<Parameters, 'cookie'>>
+  : { params?: Record<string, any>, query?: Record<string, any>, headers?: Record<string, any>, cookies?: Record<string, any> }
+) & ClientRequestBody<T> & {
+  /** the media type the body is sent as (default: the JSON media type of the request body, or its first) */
+  contentType?: string
+};
+
+type StatusCodeToClientStatus<K> =
+  K extends number
+  ? K
+  : K extends `${infer Code extends number}`
+  ? Code
+  : number;
+
+type ClientResponse<Status, Body> = {
+  statusCode: Status,
+  headers: LightMyRequestResponse['headers'],
+  body: Body,
+  /** the underlying `app.inject` response */
+  response: LightMyRequestResponse
+};
+
+/**
+ * Maps an operation to the union of the responses of its `router.client()` method, one per declared status, so checking `statusCode` narrows the `body`.
+ * - `2XX`-style ranges and `default` map to a `number` status.
+ */
+export type OperationToClientResponse<T> =
+  T extends { responses: infer Responses }
+  ? { [K in keyof Responses]: ClientResponse<StatusCodeToClientStatus<K>, ResponseBodyToType<Responses[K]>> }[keyof Responses]
+  : ClientResponse<number, any>;
 
 export type SchemaToRecord<Schema> = SchemaToType<Schema>;
 
@@ -1,17 +1,26 @@
 import { FastifyReply, FastifyRequest } from "fastify";
 import { OpenAPI } from "./types";
-import Ajv, { Options as AjvOptions, ErrorObject } from "ajv";
-import ajvFormats from "ajv-formats";
+import { Options as AjvOptions, ErrorObject } from "ajv";
 import { dirname } from "path";
 import { fileURLToPath } from "url";
-import { AutoParseConfig, AutoValidateConfig, AutoValidateRequestResponseConfig, OperatorOptions, RouteOptions, RouterOptions } from "./types/router.types";
+import { AutoParseConfig, AutoParseParametersConfig, AutoValidateConfig, AutoValidateRequestResponseConfig, NormalizeConfig, OperationHooks, OperatorName, OperatorOptions, ParameterError, RouteHookOptions, RouteOptions, RouterOptions } from "./types/router.types";
 
 export const OPERATOR_NAMES = ['get', 'post', 'put', 'delete', 'patch', 'options', 'head'] as const;
 
-export const createAjv = (config?: AjvOptions) => {
-  const ajv = new Ajv(config);
-  ajvFormats(ajv);
-  return ajv;
+export const OPERATION_HOOK_NAMES = ['onRequest', 'preValidation', 'preHandler', 'preSerialization', 'onSend', 'onResponse'] as const;
+
+/**
+ * @description
+ * - Follows a local `$ref` (`#/components/...`) in the document, returns `undefined` if it does not exist.
+ * - Objects that are not references are returned as is.
+ */
+export const dereference = <V>(document: any, value: V | { $ref: string } | undefined, maxDepth = 10): V | undefined => {
+  let current: any = value;
+  for (let depth = 0; depth < maxDepth && isObject(current) && typeof current.$ref === 'string'; depth++) {
+    if (!current.$ref.startsWith('#/')) return undefined;
+    current = current.$ref.slice(2).split('/').reduce((comp: any, part: string) => isObject(comp) ? comp[part.replace(/~1/g, '/').replace(/~0/g, '~')] : undefined, document);
+  }
+  return current;
 }
 
 export function deepMerge<Base extends object, Value extends Base = Base>(base: Base, value: Value): Base & Value {
@@ -32,114 +41,58 @@ export function deepMerge<Base extends object, Value extends Base = Base>(base:
   return result as Base & Value;
 }
 
-export const getAutoParseConfig = (autoParse: AutoParseConfig = false) => {
+export const getAutoParseConfig = (autoParse: AutoParseConfig = false): { parameters: AutoParseParametersConfig } => {
   if (!autoParse) autoParse = false;
   if (typeof autoParse === 'boolean') return { parameters: { parse: autoParse } };
   else if (typeof autoParse === 'object' && typeof autoParse !== null) {
+    const parameters = autoParse.parameters;
     return {
       ...autoParse,
-      parameters: { parse: typeof autoParse.parameters === 'boolean' ? autoParse.parameters : autoParse.parameters?.parse ?? false }
+      parameters: typeof parameters === 'boolean' ? { parse: parameters } : { ...parameters, parse: parameters?.parse ?? false }
     };
   }
   return { parameters: { parse: false } };
 }
 
-export const parseOperationParameters = <T extends OpenAPI.Operator>(specification: T, request: FastifyRequest) => {
-  debugGroup(`${request.method} ${request.url} | Parsing Operation Parameters`);
-  try {
-    const params = (specification as any).parameters as Array<any> | undefined;
-    const result: any = {
-      query: request.query ?? {},
-      params: request.params ?? {},
-      headers: request.headers ?? {},
-    };
-    debugLog('PreParsed Parameters', result);
-    if (!params) return result;
-    for (const param of params) {
-      const reqtype = (
-        param.in === 'query' ? 'query'
-          : param.in === 'path' ? 'params'
-            : param.in === 'header' ? 'headers'
-              : undefined) as keyof FastifyRequest;
-      if (!reqtype) continue;
-      const reqObj = request[reqtype] as Record<string, any>;
-      const value = reqObj[param.name];
-      if (value === undefined || value === null) continue;
-      if (param.schema?.type === "integer" || param.schema?.type === "number") {
-        const parsed = Number(value);
-        result[reqtype][param.name] = Number.isNaN(parsed) ? undefined : parsed;
-      }
-      else if (param.schema?.type === "boolean") {
-        if (typeof value === "string") {
-          result[reqtype][param.name] = value === "true";
-        } else {
-          result[reqtype][param.name] = Boolean(value);
-        }
-      } else {
-        result[reqtype][param.name] = value;
-      }
-    }
-    request.params = result.params;
-    request.query = result.query;
-    request.headers = result.headers;
-    debugLogEnd('PostParsed Parameters', {
-      params: request.params,
-      query: request.query,
-      headers: request.headers,
-    });
-    return result;
-  } catch (error) {
-    debugLogEnd('Error Parsing Operation Parameters', error);
-    return {
-      params: request.params,
-      query: request.query,
-      headers: request.headers,
-    };
-  }
-}
-
-export const validateRequestBody = <T extends OpenAPI.Operator>(specification: T, request: FastifyRequest) => {
-  const ajv = new Ajv();
-  const { requestBody } = specification as { requestBody: OpenAPI.RequestBody | undefined };
-  if (!requestBody) return { isValid: true };
-  const { content, required } = requestBody;
-  if (!content && !required) return { isValid: true };
-  if (!content) return { isValid: false };
-  const { schema } = content['application/json'] as { schema: OpenAPI.Schema };
-  const validate = ajv.compile(schema);
-  const isValid = validate(request.body);
+export const getNormalizeConfig = (normalize: NormalizeConfig = false): Required<Exclude<NormalizeConfig, boolean>> => {
+  if (normalize === true) return { defaults: true, additionalProperties: 'remove', coerceTypes: true };
+  if (!normalize) return { defaults: false, additionalProperties: 'keep', coerceTypes: false };
   return {
-    isValid,
-    errors: validate.errors,
+    defaults: normalize.defaults ?? false,
+    additionalProperties: normalize.additionalProperties ?? 'keep',
+    coerceTypes: normalize.coerceTypes ?? false,
   };
 }
 
-export const validateResponse = <T extends OpenAPI.Operator>(specification: T, response: FastifyReply, payload: any) => {
-  const ajv = createAjv();
-  const { responses } = specification as unknown as { responses: OpenAPI.Response | undefined };
-  if (!responses) return { isValid: true, errors: [] };
-  const [, responseSchemaContent] = Object.entries(responses).find(([code, responseSchema]) => code === response.status?.toString()) ?? [];
-  const schema = responseSchemaContent?.content?.['application/json']?.schema as OpenAPI.Schema | undefined;
-  if (!schema) return { isValid: true, errors: [] };
-  const validate = ajv.compile(schema);
-  const isValid = validate(payload);
+/**
+ * @description
+ * - Returns the Ajv options that apply a normalization config on top of the given options.
+ */
+export const getNormalizeAjvOptions = (config: AjvOptions | undefined, normalize: NormalizeConfig | undefined): AjvOptions | undefined => {
+  const { defaults, additionalProperties, coerceTypes } = getNormalizeConfig(normalize);
+  if (!defaults && additionalProperties !== 'remove' && !coerceTypes) return config;
   return {
-    isValid,
-    errors: validate.errors,
+    ...config,
+    ...(defaults ? { useDefaults: true } : {}),
+    ...(additionalProperties === 'remove' ? { removeAdditional: true } : {}),
+    ...(coerceTypes ? { coerceTypes: true } : {}),
   };
 }
 
 export const isDebugMode = () => ['1', 'true'].includes(process.env.DEBUG_OPENAPI_FASTIFY ?? '');
+
 export const debugGroup = (...args: any[]) => {
   if (isDebugMode()) {
     console.group('[openapi-fastify] ', ...args);
   }
 }
+
 export const debugLog = (...args: any[]) => {
   if (isDebugMode()) {
     console.log('[openapi-fastify] ', ...args);
   }
 }
+
 export const debugLogEnd = (...args: any[]) => {
   if (isDebugMode()) {
     if (args.length > 0) console.log('[openapi-fastify] ', ...args);
@@ -149,6 +102,32 @@ export const debugLogEnd = (...args: any[]) => {
 
 export const replacePathWithOpenApiParams = (path: string) => path.replace(/:([a-zA-Z_][a-zA-Z0-9_]*)/g, "{$1}");
 
+export const replaceOpenApiParamsWithPath = (path: string) => path.replace(/\{([a-zA-Z_][a-zA-Z0-9_]*)\}/g, ":$1");
+
+/**
+ * @description
+ * - Returns the operations of the document's `paths`, with the `parameters` of their path item prepended (unless the operation overrides them).
+ * @example
+ * ```typescript
+ * getDocumentOperations({ paths: { '/users/{id}': { get: { operationId: 'getUser', responses: {} } } } }) // [{ path: '/users/{id}', method: 'get', specification: { operationId: 'getUser', responses: {} } }]
+ * ```
+ */
+export const getDocumentOperations = (document?: any): { path: string, method: OperatorName, specification: OpenAPI.Operator }[] =>
+  Object.entries<any>(isObject(document?.paths) ? document.paths : {}).flatMap(([path, rawItem]) => {
+    const item = dereference<Record<string, any>>(document, rawItem);
+    if (!isObject(item)) return [];
+    return OPERATOR_NAMES.filter(method => isObject(item[method])).map(method => {
+      const specification = item[method] as OpenAPI.Operator;
+      if (!Array.isArray(item.parameters) || item.parameters.length === 0) return { path, method, specification };
+      const getKey = (parameter: any) => {
+        const resolved = dereference<OpenAPI.Parameter>(document, parameter);
+        return `${resolved?.in}:${resolved?.name}`;
+      }
+      const overridden = new Set((specification.parameters ?? []).map(getKey));
+      return { path, method, specification: { ...specification, parameters: [...item.parameters.filter((parameter: any) => !overridden.has(getKey(parameter))), ...specification.parameters ?? []] } };
+    });
+  });
+
 export const AUTO_VALIDATION_DEFAULTS = {
   config: undefined,
   request: {
@@ -208,6 +187,28 @@ export const onValidationError = (type: 'request' | 'response', config: AutoVali
   return reply.status(500).send({ error: "Internal Server Error" });
 }
 
+/**
+ * @description
+ * - Returns the payload replacing a response that failed validation, following the `preSerialization` hook contract: the status is set on the reply and the payload returned, errors thrown by `onError` reach Fastify's error handler.
+ */
+export const onResponseValidationError = (config: AutoValidateConfig | undefined, request: FastifyRequest, reply: FastifyReply, errors: ErrorObject<any>[]) => {
+  const autoValidate = getAutoValidateConfig(config);
+  if (autoValidate.response?.onError) return autoValidate.response.onError(request, reply, errors);
+  else if (autoValidate.response?.errorResponse) {
+    const { status, payload } = autoValidate.response.errorResponse;
+    reply.status(status);
+    return typeof payload === 'function' ? payload(errors || []) : payload;
+  }
+  reply.status(500);
+  return { error: "Internal Server Error" };
+}
+
+export const onParameterError = (config: AutoParseConfig | undefined, request: FastifyRequest, reply: FastifyReply, errors: ParameterError[]) => {
+  const autoParse = getAutoParseConfig(config);
+  if (autoParse.parameters.onError) return autoParse.parameters.onError(request, reply, errors);
+  return reply.status(400).send({ error: "Invalid Request Parameters", errors });
+}
+
 export const getOperationPath = (path: string, options?: RouteOptions) => {
   const pathArray = [...options?.prefix?.split('/') ?? '', ...path.split('/')].map(p => p.trim()).filter(Boolean);
   return `/${pathArray.join('/')}`;
@@ -215,9 +216,20 @@ export const getOperationPath = (path: string, options?: RouteOptions) => {
 
 export const getOperationOptions = ({ operatorOptions = {}, routeOptions = {}, routerOptions = {} }: { operatorOptions: OperatorOptions | undefined, routeOptions: RouteOptions | undefined, routerOptions: RouterOptions | undefined }) => {
   const merge1 = deepMerge(routerOptions, routeOptions);
-  return deepMerge(merge1, operatorOptions);
+  const options = deepMerge(merge1, operatorOptions);
+  // hooks are accumulated (router, route, operator) instead of overridden
+  const levels: OperationHooks[] = [routerOptions, routeOptions, operatorOptions];
+  const hooks = Object.fromEntries(OPERATION_HOOK_NAMES.map(name => [name, levels.flatMap<unknown>(level => level[name] ?? [])]).filter(([, hooks]) => hooks.length > 0));
+  return { ...options, ...hooks };
 }
 
+/**
+ * @description
+ * - Returns the route options registering the merged hooks of an operation (see `getOperationOptions`) with Fastify.
+ */
+export const getOperationHooks = ({ onRequest, preValidation, preHandler, preSerialization, onSend, onResponse }: OperationHooks) =>
+  ({ onRequest, preValidation, preHandler, preSerialization, onSend, onResponse }) as RouteHookOptions;
+
 export const getDefaultOperationOptions = ({ operatorOptions = {}, routeOptions = {}, routerOptions = {} }: { operatorOptions: OperatorOptions | undefined, routeOptions: RouteOptions | undefined, routerOptions: RouterOptions | undefined }): OperatorOptions => {
   const operatorAutoValidate = getAutoValidateConfig(operatorOptions?.autoValidate);
   const routeAutoValidate = getAutoValidateConfig(routeOptions?.autoValidate);
@@ -234,28 +246,91 @@ export const getDefaultOperationOptions = ({ operatorOptions = {}, routeOptions
   }
 }
 
-export const getIsRequestBodyRequired = (specification: OpenAPI.Operator): boolean | undefined => {
-  const requestBody = (specification as { requestBody?: OpenAPI.RequestBody }).requestBody;
+export const getIsRequestBodyRequired = (specification: OpenAPI.Operator, document?: any): boolean | undefined => {
+  const requestBody = dereference<OpenAPI.RequestBody>(document, (specification as { requestBody?: OpenAPI.RequestBody }).requestBody);
   return !!(requestBody?.required);
 }
 
-
 export const getRequestBodySchema = (contentType: string, specification: OpenAPI.Operator) => {
   const { requestBody } = specification as { requestBody: OpenAPI.RequestBody | undefined };
   if (!requestBody) return undefined;
   const { content } = requestBody;
   if (!content) return undefined;
-  return content[contentType]?.schema;
+  const mediaType = getMediaTypeMatch(contentType, Object.keys(content));
+  return mediaType ? content[mediaType]?.schema : undefined;
+}
+
+/**
+ * @description
+ * - Returns the media types declared by the (dereferenced) request body of an operation.
+ */
+export const getRequestBodyMediaTypes = (specification: OpenAPI.Operator, document?: any) => {
+  const requestBody = dereference<OpenAPI.RequestBody>(document, (specification as { requestBody?: OpenAPI.RequestBody }).requestBody);
+  return Object.keys(requestBody?.content ?? {});
+}
+
+/**
+ * @description
+ * - Returns the key of the response declared for a status code, picking the most specific match: the exact code, then its `2XX`-style range, then `default`.
+ */
+export const getResponseStatusKey = (statusCode: number | string, statuses: string[]) => {
+  const code = statusCode.toString();
+  return statuses.find(status => status === code)
+    ?? statuses.find(status => status.toUpperCase() === `${code[0]}XX`)
+    ?? statuses.find(status => status === 'default');
+}
+
+export const normalizeMediaType = (mediaType: string) => mediaType.split(';')[0].trim().toLowerCase();
+
+const getMediaTypeScore = (contentType: string, mediaType: string) => {
+  if (mediaType === contentType) return 4;
+  const [type, subtype = ''] = contentType.split('/');
+  const [mediaTypeType, mediaTypeSubtype = ''] = mediaType.split('/');
+  if (mediaTypeType === type && (subtype.endsWith(`+${mediaTypeSubtype}`) || mediaTypeSubtype.endsWith(`+${subtype}`))) return 3;
+  if (mediaTypeType === type && mediaTypeSubtype === '*') return 2;
+  if (mediaType === '*/*') return 1;
+  return 0;
+}
+
+/**
+ * @description
+ * - Returns the declared media type that best matches a content type, ignoring parameters such as `; charset=utf-8`.
+ * - An exact match wins over a structured syntax suffix match (`application/problem+json` and `application/json`), which wins over `type/*`, which wins over `*\/*`.
+ */
+export const getMediaTypeMatch = (contentType: string | undefined, mediaTypes: string[]) => {
+  if (!contentType) return undefined;
+  const normalized = normalizeMediaType(contentType);
+  let match: string | undefined;
+  let matchScore = 0;
+  for (const mediaType of mediaTypes) {
+    const score = getMediaTypeScore(normalized, normalizeMediaType(mediaType));
+    if (score > matchScore) {
+      match = mediaType;
+      matchScore = score;
+    }
+  }
+  return match;
 }
 
 export const getResponseSchema = (contentType: string, specification: OpenAPI.Operator, response: FastifyReply) => {
-  const { responses } = specification as unknown as { responses: OpenAPI.Response | undefined };
+  const { responses } = specification as unknown as { responses: Record<string, { content?: Record<string, { schema: OpenAPI.Schema }> }> | undefined };
   if (!responses) return undefined;
-  const responseSchemaContent = responses?.[response.statusCode.toString() as keyof OpenAPI.Response] as { content?: Record<string, { schema: OpenAPI.Schema }> };
-  const schema = responseSchemaContent?.content?.['application/json']?.schema as OpenAPI.Schema | undefined;
-  return schema;
+  const status = getResponseStatusKey(response.statusCode, Object.keys(responses));
+  const content = status ? responses[status]?.content ?? {} : {};
+  const mediaType = getMediaTypeMatch(contentType, Object.keys(content));
+  return mediaType ? content[mediaType]?.schema as OpenAPI.Schema | undefined : undefined;
 }
 
+export const getOperationKey = (method: string, path: string) => `${method.toLowerCase()} ${path}`;
 
+/**
+ * @description
+ * - Returns a deep copy of a JSON value with the keys of every object sorted, so serializing it is stable regardless of registration order.
+ */
+export const sortKeys = <T>(value: T): T => {
+  if (Array.isArray(value)) return value.map(sortKeys) as T;
+  if (!isObject(value)) return value;
+  return Object.fromEntries(Object.keys(value).sort().map(key => [key, sortKeys(value[key])])) as T;
+}
 
-export const isObject = (value: any): value is Record<string, any> => value !== null && typeof value === 'object' && value.toString() === '[object Object]';
\ No newline at end of file
+export const isObject = (value: any): value is Record<string, any> => value !== null && typeof value === 'object' && value.toString() === '[object Object]';
@@ -0,0 +1,244 @@
+import { FastifySchema } from "fastify";
+import { OpenAPI } from "./types";
+import Ajv, { Options as AjvOptions, ValidateFunction } from "ajv";
+import Ajv2020 from "ajv/dist/2020";
+import type AjvCore from "ajv/dist/core";
+import ajvFormats from "ajv-formats";
+import { OperationValidators } from "./types/router.types";
+import { dereference, getMediaTypeMatch, getResponseStatusKey, isObject } from "./utils";
+import { getOperationParameters, getParameterKey } from "./parameters";
+import { MULTIPART_MEDIA_TYPE, toMultipartSchema } from "./multipart";
+
+/**
+ * @description
+ * - The `$id` the document components are registered under, local `$ref`s (`#/components/...`) are resolved against it.
+ */
+export const DOCUMENT_SCHEMA_ID = 'openapi-fastify://document';
+
+/**
+ * @description
+ * - OpenAPI schema keywords that carry no validation semantics, registered with Ajv so strict mode accepts them.
+ */
+export const OPENAPI_ANNOTATION_KEYWORDS = ['example', 'xml', 'externalDocs', 'discriminator'] as const;
+
+export const isOpenApi31 = (document?: { openapi?: string }) => typeof document?.openapi === 'string' && document.openapi.startsWith('3.1');
+
+/**
+ * @description
+ * - The `$id` of the copy of the document components whose object schemas disallow undeclared properties (see `closeObjectSchemas`).
+ */
+export const CLOSED_DOCUMENT_SCHEMA_ID = 'openapi-fastify://closed-document';
+
+/**
+ * @description
+ * - Creates an Ajv instance, using the JSON Schema 2020-12 dialect for OpenAPI 3.1 documents (draft-07 otherwise).
+ * - Registers the document components (if any) so local `$ref`s can be resolved.
+ * - With `closeObjects`, a closed copy of the components is registered as well, which `closeObjectSchemas` points references at.
+ */
+export const createAjv = (config?: AjvOptions, document?: { openapi?: string, components?: Record<string, any> }, { closeObjects = false }: { closeObjects?: boolean } = {}): AjvCore => {
+  const ajv = isOpenApi31(document) ? new Ajv2020(config) : new Ajv(config);
+  ajvFormats(ajv);
+  for (const keyword of OPENAPI_ANNOTATION_KEYWORDS) ajv.addKeyword(keyword);
+  if (isObject(document?.components)) {
+    const components = resolveNullable(resolveSchemaRefs(document.components));
+    ajv.addKeyword('components');
+    const registered: [string, Record<string, any>][] = [[DOCUMENT_SCHEMA_ID, components]];
+    if (closeObjects) registered.push([CLOSED_DOCUMENT_SCHEMA_ID, isObject(components.schemas)
+      ? { ...components, schemas: Object.fromEntries(Object.entries(components.schemas).map(([name, schema]) => [name, closeObjectSchemas(schema)])) }
+      : components]);
+    for (const [id, registeredComponents] of registered) {
+      ajv.addSchema({ $id: id, components: registeredComponents });
+      // component schemas get their own id, so that schema-relative refs (e.g. `#/$defs/...`) resolve against them
+      for (const [name, schema] of Object.entries(registeredComponents.schemas ?? {}))
+        ajv.addSchema(schema as any, `${id}/components/schemas/${name.replace(/~/g, '~0').replace(/\//g, '~1')}`);
+    }
+  }
+  return ajv;
+}
+
+const toDocumentRef = (ref: string, id: string) => {
+  const [, name, pointer = ''] = ref.match(/^#\/components\/schemas\/([^/]+)(\/.*)?$/) ?? [];
+  return name ? `${id}/components/schemas/${name}#${pointer}` : `${id}${ref}`;
+}
+
+/**
+ * @description
+ * - Returns a copy of the schema with component `$ref`s (`#/components/...`) pointing at the registered document.
+ * - Other local references (e.g. `#/$defs/...`) are left relative to the schema itself.
+ * @example
+ * ```typescript
+ * resolveSchemaRefs({ $ref: '#/components/schemas/User' }) // { $ref: 'openapi-fastify://document/components/schemas/User#' }
+ * resolveSchemaRefs({ $ref: '#/components/responses/NotFound' }) // { $ref: 'openapi-fastify://document#/components/responses/NotFound' }
+ * ```
+ */
+export const resolveSchemaRefs = <S>(schema: S, id: string = DOCUMENT_SCHEMA_ID): S => {
+  if (Array.isArray(schema)) return schema.map(item => resolveSchemaRefs(item, id)) as S;
+  if (!isObject(schema)) return schema;
+  const result: Record<string, any> = {};
+  for (const [key, value] of Object.entries(schema)) {
+    result[key] = key === '$ref' && typeof value === 'string' && value.startsWith('#/components/') ? toDocumentRef(value, id) : resolveSchemaRefs(value, id);
+  }
+  return result as S;
+}
+
+/**
+ * @description
+ * - Returns a copy of the schema with the OpenAPI 3.0 `nullable` keyword translated to JSON Schema (which Ajv understands without `type`).
+ * - `type` is widened to include `'null'`, `null` is added to `enum`, and schemas without a `type` (e.g. `allOf`, `$ref`) are wrapped in an `anyOf`.
+ * @example
+ * ```typescript
+ * resolveNullable({ type: 'string', nullable: true }) // { type: ['string', 'null'] }
+ * resolveNullable({ allOf: [{ $ref: '#/components/schemas/User' }], nullable: true }) // { anyOf: [{ allOf: [...] }, { type: 'null' }] }
+ * ```
+ */
+export const resolveNullable = <S>(schema: S): S => {
+  if (Array.isArray(schema)) return schema.map(item => resolveNullable(item)) as S;
+  if (!isObject(schema)) return schema;
+  const { nullable, ...rest } = schema as Record<string, any>;
+  const result: Record<string, any> = {};
+  for (const [key, value] of Object.entries(rest)) result[key] = resolveNullable(value);
+  if (typeof nullable !== 'boolean') return (nullable === undefined ? result : { ...result, nullable: resolveNullable(nullable) }) as S;
+  if (nullable === false) return result as S;
+  if (Array.isArray(result.enum) && !result.enum.includes(null)) result.enum = [...result.enum, null];
+  if (typeof result.type === 'string') return { ...result, type: [result.type, 'null'] } as S;
+  if (Array.isArray(result.type)) return { ...result, type: result.type.includes('null') ? result.type : [...result.type, 'null'] } as S;
+  return { anyOf: [result, { type: 'null' }] } as S;
+}
+
+const toClosedDocumentRef = (ref: string) => ref.startsWith(`${DOCUMENT_SCHEMA_ID}/`) || ref.startsWith(`${DOCUMENT_SCHEMA_ID}#`) ? `${CLOSED_DOCUMENT_SCHEMA_ID}${ref.slice(DOCUMENT_SCHEMA_ID.length)}` : ref;
+
+/**
+ * @description
+ * - Returns a copy of the schema where object schemas that declare `properties` but no `additionalProperties` disallow additional properties, so Ajv can remove (`removeAdditional`) or reject them.
+ * - Members of `allOf` (and schemas composing them) are left open, since closing them would reject the properties declared by their siblings. A member that is a component `$ref` keeps pointing at the open components.
+ * - Other component `$ref`s (resolved by `resolveSchemaRefs`) point at the closed copy registered by `createAjv`.
+ * @example
+ * ```typescript
+ * closeObjectSchemas({ type: 'object', properties: { name: { type: 'string' } } }) // { type: 'object', properties: {...}, additionalProperties: false }
+ * ```
+ */
+export const closeObjectSchemas = <S>(schema: S, isAllOfMember = false): S => {
+  if (Array.isArray(schema)) return schema.map(item => closeObjectSchemas(item)) as S;
+  if (!isObject(schema)) return schema;
+  const result: Record<string, any> = {};
+  for (const [key, value] of Object.entries(schema)) {
+    if (key === 'allOf' && Array.isArray(value)) result[key] = value.map(item => closeObjectSchemas(item, true));
+    else if (key === 'properties' && isObject(value)) result[key] = Object.fromEntries(Object.entries(value).map(([name, item]) => [name, closeObjectSchemas(item)]));
+    else if (key === '$ref' && typeof value === 'string') result[key] = isAllOfMember ? value : toClosedDocumentRef(value);
+    else result[key] = closeObjectSchemas(value);
+  }
+  if (!isAllOfMember && !result.allOf && isObject(result.properties) && result.additionalProperties === undefined && result.unevaluatedProperties === undefined) result.additionalProperties = false;
+  return result as S;
+}
+
+/**
+ * @description
+ * - Returns the compiled validator of the response declared for a status code and content type.
+ */
+export const getResponseValidator = (validators: OperationValidators['response'] | undefined, statusCode: number, contentType: string) => {
+  if (!validators) return undefined;
+  const status = getResponseStatusKey(statusCode, Object.keys(validators));
+  if (!status) return undefined;
+  const mediaType = getMediaTypeMatch(contentType, Object.keys(validators[status]));
+  return mediaType ? validators[status][mediaType] : undefined;
+}
+
+const compileSchema = (ajv: AjvCore, schema: OpenAPI.Schema, description: string, closeObjects = false): ValidateFunction => {
+  try {
+    // a root `default` is never applied by Ajv (and rejected in strict mode with `useDefaults`), parameter defaults are applied by `parseOperationParameters`
+    const { default: _default, ...resolved } = resolveNullable(resolveSchemaRefs(schema)) as Record<string, any>;
+    return ajv.compile(closeObjects ? closeObjectSchemas(resolved) : resolved);
+  } catch (error) {
+    throw new Error(`[openapi-fastify] Failed to compile ${description}: ${(error as Error)?.message ?? error}`);
+  }
+}
+
+/**
+ * @description
+ * - Compiles the request body and response validators of an operation, per content type and per status code.
+ * - Response validators are compiled with `responseAjv` (if given), so request normalization does not apply to responses.
+ * - Throws if any of the schemas cannot be compiled.
+ */
+export const compileOperationValidators = (ajv: AjvCore, specification: OpenAPI.Operator, { request = true, response = true, parameters = true, name = 'operation', document, closeObjects = false, responseAjv = ajv }: { request?: boolean, response?: boolean, parameters?: boolean, name?: string, document?: any, closeObjects?: boolean, responseAjv?: AjvCore } = {}): OperationValidators => {
+  const validators: OperationValidators = { request: {}, response: {}, parameters: {} };
+  const { requestBody: rawRequestBody, responses } = specification as { requestBody?: OpenAPI.RequestBody, responses?: Record<string, OpenAPI.Response> };
+  if (request) {
+    const requestBody = dereference<OpenAPI.RequestBody>(document, rawRequestBody);
+    for (const [contentType, media] of Object.entries(requestBody?.content ?? {})) {
+      if (!media?.schema) continue;
+      const schema = getMediaTypeMatch(contentType, [MULTIPART_MEDIA_TYPE]) ? toMultipartSchema(media.schema, document) : media.schema;
+      validators.request[contentType] = compileSchema(ajv, schema as OpenAPI.Schema, `request body schema of ${name} (${contentType})`, closeObjects);
+    }
+  }
+  if (parameters) {
+    for (const parameter of getOperationParameters(specification, document)) {
+      if (!parameter.schema) continue;
+      validators.parameters[getParameterKey(parameter)] = compileSchema(ajv, parameter.schema as OpenAPI.Schema, `${parameter.in} parameter schema of ${name} (${parameter.name})`, closeObjects);
+    }
+  }
+  if (response) {
+    for (const [status, rawResponseSpec] of Object.entries(responses ?? {})) {
+      const responseSpec = dereference<OpenAPI.Response>(document, rawResponseSpec);
+      for (const [contentType, media] of Object.entries(responseSpec?.content ?? {})) {
+        if (!media?.schema) continue;
+        validators.response[status] ??= {};
+        validators.response[status][contentType] = compileSchema(responseAjv, media.schema as OpenAPI.Schema, `response schema of ${name} (${status} ${contentType})`);
+      }
+    }
+  }
+  return validators;
+}
+
+/**
+ * @description
+ * - The Ajv options Fastify compiles its native route schemas with (coercing querystring, params and headers, applying defaults and removing additional properties).
+ */
+export const NATIVE_AJV_DEFAULTS: AjvOptions = { coerceTypes: 'array', useDefaults: true, removeAdditional: true };
+
+const NATIVE_SCHEMA_PARTS = { query: 'querystring', path: 'params', header: 'headers' } as const;
+
+const toNativeSchema = (schema: unknown) => resolveNullable(resolveSchemaRefs(schema)) as Record<string, any>;
+
+/**
+ * @description
+ * - Converts an operation into Fastify's native route schema (`body`, `querystring`, `params`, `headers` and `response`), so Fastify validates requests and serializes responses itself.
+ * - Component `$ref`s point at the schemas registered by `getNativeSharedSchemas`.
+ * - Cookie parameters have no native counterpart and are left out.
+ */
+export const getFastifySchema = (specification: OpenAPI.Operator, document?: any): FastifySchema => {
+  const schema: Record<string, any> = {};
+  for (const parameter of getOperationParameters(specification, document)) {
+    const part = NATIVE_SCHEMA_PARTS[parameter.in as keyof typeof NATIVE_SCHEMA_PARTS];
+    if (!part || !parameter.schema) continue;
+    const name = parameter.in === 'header' ? parameter.name.toLowerCase() : parameter.name;
+    schema[part] ??= { type: 'object', properties: {} };
+    schema[part].properties[name] = toNativeSchema(parameter.schema);
+    if (parameter.required || parameter.in === 'path') schema[part].required = [...schema[part].required ?? [], name];
+  }
+  const requestBody = dereference<OpenAPI.RequestBody>(document, (specification as { requestBody?: OpenAPI.RequestBody }).requestBody);
+  const bodies = Object.entries(requestBody?.content ?? {}).filter(([, media]) => media?.schema);
+  if (bodies.length === 1) schema.body = toNativeSchema(bodies[0][1].schema);
+  else if (bodies.length > 1) schema.body = { content: Object.fromEntries(bodies.map(([mediaType, media]) => [mediaType, { schema: toNativeSchema(media.schema) }])) };
+  const responses = (specification as { responses?: Record<string, OpenAPI.Response> }).responses ?? {};
+  for (const [status, rawResponse] of Object.entries(responses)) {
+    const response = dereference<OpenAPI.Response>(document, rawResponse);
+    const content = Object.entries(response?.content ?? {}).filter(([, media]) => media?.schema);
+    if (content.length === 0) continue;
+    schema.response ??= {};
+    schema.response[status.toLowerCase()] = {
+      description: response?.description,
+      content: Object.fromEntries(content.map(([mediaType, media]) => [mediaType, { schema: toNativeSchema(media.schema) }]))
+    };
+  }
+  return schema;
+}
+
+/**
+ * @description
+ * - Returns the document component schemas, with their ids, to be added to Fastify (`app.addSchema`) so native route schemas can reference them.
+ */
+export const getNativeSharedSchemas = (document?: { components?: Record<string, any> }) =>
+  Object.entries(document?.components?.schemas ?? {}).map(([name, schema]) => ({
+    ...toNativeSchema(schema),
+    $id: `${DOCUMENT_SCHEMA_ID}/components/schemas/${name.replace(/~/g, '~0').replace(/\//g, '~1')}`
+  }));
@@ -0,0 +1,28 @@
+import { parse as parseYamlDocument, stringify as stringifyYaml } from "yaml";
+
+/**
+ * @description
+ * - Serializes a JSON value (e.g. an OpenAPI document) as YAML, repeated objects are written out again rather than as aliases.
+ * @example
+ * ```typescript
+ * toYaml({ openapi: '3.1.0', paths: { '/users': { get: { tags: ['users'] } } } }) // 'openapi: 3.1.0\npaths:\n  /users:\n    get:\n      tags:\n        - users\n'
+ * ```
+ */
+export const toYaml = (value: any) => stringifyYaml(value, { aliasDuplicateObjects: false });
+
+/**
+ * @description
+ * - Parses a YAML document (e.g. an OpenAPI document) into a JSON value, the counterpart of `toYaml`.
+ * - Throws (with the line number) on malformed input.
+ * @example
+ * ```typescript
+ * parseYaml('openapi: 3.1.0\npaths:\n  /users:\n    get:\n      tags: [users]\n') // { openapi: '3.1.0', paths: { '/users': { get: { tags: ['users'] } } } }
+ * ```
+ */
+export const parseYaml = (source: string): any => {
+  try {
+    return parseYamlDocument(source);
+  } catch (error) {
+    throw new Error(`[openapi-fastify] Invalid YAML: ${(error as Error)?.message ?? error}`);
+  }
+}
@@ -1,6 +1,8 @@
 import { describe, it, expect, beforeAll, afterAll } from "@jest/globals";
 import { app, $ } from "./testApp/initialized";
 import { db, dbHelpers } from "./testApp/db.mock";
+import type { FromSpec } from "../../src";
+import type * as routes from "./testApp/routes";
 
 const PORT = 8889; // Use different port from old integration test
 
@@ -83,6 +85,24 @@ describe("Integration Tests", () => {
           expect(data[0].role).toBe("user");
         }
       }, 10000);
+
+      it("should reject invalid query parameters", async () => {
+        const res = await hitServer("/users?limit=abc&role=guest");
+        expect(res.status).toBe(400);
+        const data = await res.json();
+        expect(data).toHaveProperty("error", "Invalid Request Parameters");
+        expect(data.errors).toEqual([
+          { name: "role", in: "query", message: "must be equal to one of the allowed values" },
+          { name: "limit", in: "query", message: "must be integer" }
+        ]);
+      }, 10000);
+
+      it("should reject out of range query parameters", async () => {
+        const res = await hitServer("/users?limit=1000");
+        expect(res.status).toBe(400);
+        const data = await res.json();
+        expect(data.errors).toEqual([{ name: "limit", in: "query", message: "must be <= 100" }]);
+      }, 10000);
     });
 
     describe("POST /users", () => {
@@ -176,7 +196,7 @@ describe("Integration Tests", () => {
         expect(res.status).toBe(201);
         const data = await res.json();
         // The default role should be applied by the schema
-        expect(data).toHaveProperty("role");
+        expect(data).toHaveProperty("role", "user");
       }, 10000);
     });
 
@@ -205,9 +225,18 @@ describe("Integration Tests", () => {
         expect(data).toHaveProperty("error");
       }, 10000);
 
-      it("should return 404 for invalid user id format", async () => {
+      it("should return 400 for invalid user id format", async () => {
         const res = await hitServer("/users/invalid");
-        expect(res.status).toBe(404); // Fastify route matching
+        expect(res.status).toBe(400);
+        const data = await res.json();
+        expect(data.errors).toEqual([{ name: "id", in: "path", message: "must be integer" }]);
+      }, 10000);
+
+      it("should return 400 for out of range user id", async () => {
+        const res = await hitServer("/users/0");
+        expect(res.status).toBe(400);
+        const data = await res.json();
+        expect(data.errors[0]).toMatchObject({ name: "id", in: "path" });
       }, 10000);
     });
 
@@ -568,6 +597,27 @@ describe("Integration Tests", () => {
     });
   });
 
+  describe('Client Tests', () => {
+    const client = $.client<FromSpec.RouteOperations<typeof routes[keyof typeof routes]>>({ validateResponse: true });
+
+    it('should call operations by operationId with typed responses', async () => {
+      const users = await client.listUsers({ query: { role: "admin", limit: 1 } });
+      expect(users.statusCode).toBe(200);
+      if (users.statusCode !== 200) return;
+      expect(users.body).toHaveLength(1);
+      const user = await client.getUserById({ params: { id: users.body[0].id } });
+      expect(user).toMatchObject({ statusCode: 200, body: { id: users.body[0].id, role: "admin" } });
+      if (user.statusCode === 200) expect(user.body).not.toHaveProperty("password");
+    }, 10000);
+
+    it('should send bodies and return declared error statuses', async () => {
+      const post = await client.createPost({ body: { userId: 999999, title: "Title", content: "Content" } });
+      expect(post).toMatchObject({ statusCode: 404, body: { error: "User not found" } });
+      const invalid = await client.getUserById({ params: { id: 0 } }, { validateResponse: false });
+      expect(invalid.statusCode).toBe(400);
+    }, 10000);
+  });
+
   describe('Schema Tests', () => {
     const specification = $.specification;
     it('should use ref with override correctly', async () => {
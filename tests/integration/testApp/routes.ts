@@ -2,7 +2,7 @@ import { $ } from "./app";
 import { db, dbHelpers } from "./db.mock";
 
 // GET /health - Simple health check endpoint
-$.route("/health", {
+export const healthRoute = $.route("/health", {
   get: $.op(
     <const>{
       summary: "Health check",
@@ -34,7 +34,7 @@ $.route("/health", {
 });
 
 // GET /users - List all users
-$.route("/users", {
+export const usersRoute = $.route("/users", {
   get: $.op(
     {
       summary: "List all users",
@@ -122,12 +122,8 @@ $.route("/users", {
       }
     },
     async (request, reply) => {
-      const { username, email, password, role = 'user' } = request.body as {
-        username: string;
-        email: string;
-        password: string;
-        role?: 'user' | 'admin';
-      };
+      // `role` defaults to 'user' (see CreateUserRequest), applied by `normalize`
+      const { username, email, password, role } = request.body;
       
       // Check if user already exists
       if (dbHelpers.getUserByUsername(username)) {
@@ -140,12 +136,15 @@ $.route("/users", {
       
       reply.code(201);
       return userWithoutPassword;
+    },
+    {
+      normalize: { defaults: true }
     }
   )
 });
 
 // GET /users/:id - Get user by ID
-$.route("/users/:id", {
+export const userRoute = $.route("/users/:id", {
   get: $.op(
     <const>{
       summary: "Get user by ID",
@@ -312,7 +311,7 @@ $.route("/users/:id", {
 });
 
 // GET /users/:id/posts - Get posts by user ID
-$.route("/users/:id/posts", {
+export const userPostsRoute = $.route("/users/:id/posts", {
   get: $.op(
     <const>{
       summary: "Get posts by user ID",
@@ -363,7 +362,7 @@ $.route("/users/:id/posts", {
 });
 
 // POST /posts - Create a new post
-$.route("/posts", {
+export const postsRoute = $.route("/posts", {
   post: $.op(
     <const>{
       summary: "Create a new post",
@@ -372,7 +371,7 @@ $.route("/posts", {
         required: true,
         content: {
           "application/json": {
-            schema: $.ref('#/components/schemas/CreatePostRequest')
+            schema: $.ref('#/components/schemas/CreatePostRequest', { useRef: true })
           }
         }
       },
@@ -381,7 +380,7 @@ $.route("/posts", {
           description: "Post created successfully",
           content: {
             "application/json": {
-              schema: $.ref('#/components/schemas/Post')
+              schema: $.ref('#/components/schemas/Post', { useRef: true })
             }
           }
         },
@@ -417,7 +416,7 @@ $.route("/posts", {
 });
 
 // GET /posts/:id - Get post by ID
-$.route("/posts/:id", {
+export const postRoute = $.route("/posts/:id", {
   get: $.op(
     <const>{
       summary: "Get post by ID",
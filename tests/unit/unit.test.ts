@@ -1,8 +1,9 @@
 import { describe, it, expect, beforeEach, jest } from "@jest/globals";
 import Fastify from "fastify";
 import { OpenApiRouter } from "../../src/router";
-import { 
-  getOperationOptions, 
+import type { FromSpec } from "../../src";
+import {
+  getOperationOptions,
   getOperationPath,
   replacePathWithOpenApiParams,
   getRequestBodySchema,
@@ -10,12 +11,81 @@ import {
   getAutoValidateConfig,
   AUTO_VALIDATION_DEFAULTS,
   isObject,
-  parseOperationParameters,
-  validateRequestBody,
-  validateResponse,
-  deepMerge
+  deepMerge,
+  dereference,
+  getAutoParseConfig,
+  getResponseStatusKey,
+  getMediaTypeMatch,
+  getNormalizeConfig,
+  getNormalizeAjvOptions,
+  getDocumentOperations,
 } from "../../src/utils";
-import { FastifyReply, FastifyRequest } from "fastify";
+import {
+  parseOperationParameters,
+  deserializeParameter,
+  parseCookieHeader,
+} from "../../src/parameters";
+import {
+  parseMultipart,
+  getMultipartBody,
+  toMultipartSchema,
+  getUrlEncodedBody,
+} from "../../src/multipart";
+import {
+  compileOperationValidators,
+  createAjv,
+  resolveSchemaRefs,
+  DOCUMENT_SCHEMA_ID,
+  CLOSED_DOCUMENT_SCHEMA_ID,
+  isOpenApi31,
+  resolveNullable,
+  getFastifySchema,
+  closeObjectSchemas,
+} from "../../src/validation";
+import {
+  getSecurityCredentials,
+  authorizeRequest,
+} from "../../src/security";
+import {
+  isETagMatch,
+  getDocsHtml,
+} from "../../src/docs";
+import {
+  toYaml,
+  parseYaml,
+} from "../../src/yaml";
+import {
+  lintOperations,
+  getLintConfig,
+  LINT_RULE_DEFAULTS,
+} from "../../src/lint";
+import {
+  getMockValue,
+  getMockResponse,
+} from "../../src/mock";
+import {
+  serializeQuery,
+  getClientInjectOptions,
+} from "../../src/client";
+import { run, watchSpecificationFile } from "../../src/cli";
+import { generateClient, generateSpecModule } from "../../src/generate";
+import { createProgram, flattenDiagnosticMessageText, getPreEmitDiagnostics, ModuleKind, ScriptTarget, transpileModule } from "typescript";
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import Ajv2020 from "ajv/dist/2020";
+import { FastifyBaseLogger, FastifyInstance, FastifyLogFn, FastifyReply, FastifyRequest } from "fastify";
+
+const multipartBody = (boundary: string, parts: { name: string, filename?: string, contentType?: string, value: string | Buffer }[]) => Buffer.concat([
+  ...parts.flatMap(({ name, filename, contentType, value }) => [
+    Buffer.from(`--${boundary}\r\nContent-Disposition: form-data; name="${name}"${filename ? `; filename="${filename}"` : ""}\r\n${contentType ? `Content-Type: ${contentType}\r\n` : ""}\r\n`),
+    Buffer.from(value),
+    Buffer.from("\r\n")
+  ]),
+  Buffer.from(`--${boundary}--\r\n`)
+]);
+
+const spyOnWarn = (app: FastifyInstance) => jest.spyOn(app.log as FastifyBaseLogger & Record<'warn', FastifyLogFn>, "warn").mockImplementation(() => {});
 
 describe("Utilities", () => {
   describe("getOperationOptions", () => {
@@ -130,6 +200,14 @@ describe("Utilities", () => {
         autoValidate: true, // operatorOptions overrides routeOptions which overrides routerOptions
       });
     });
+
+    it("(8) should accumulate hooks in router, route and operator order", () => {
+      const [router, route, operator] = [async () => {}, async () => {}, async () => {}];
+      const result = getOperationOptions({ routerOptions: { preHandler: [router] }, routeOptions: { preHandler: [route], onSend: [route] }, operatorOptions: { preHandler: [operator] } });
+      expect(result.preHandler).toEqual([router, route, operator]);
+      expect(result.onSend).toEqual([route]);
+      expect(result.onRequest).toBeUndefined();
+    });
   });
 
   describe("getOperationPath", () => {
@@ -244,6 +322,21 @@ describe("Utilities", () => {
       console.log(result);
       expect(result).toBeUndefined();
     });
+
+    it("(5) should match media type parameters, structured suffixes and ranges", () => {
+      const specification = {
+        requestBody: {
+          content: {
+            "application/json": { schema: { type: "object" } },
+            "text/*": { schema: { type: "string" } }
+          }
+        }
+      };
+      expect(getRequestBodySchema('application/json; charset=utf-8', specification as any)).toEqual({ type: "object" });
+      expect(getRequestBodySchema('application/vnd.acme+json', specification as any)).toEqual({ type: "object" });
+      expect(getRequestBodySchema('text/csv', specification as any)).toEqual({ type: "string" });
+      expect(getRequestBodySchema('application/xml', specification as any)).toBeUndefined();
+    });
   });
 
   describe("getResponseSchema", () => {
@@ -312,8 +405,794 @@ describe("Utilities", () => {
       const result = getResponseSchema('application/json', specification as any, reply);
       expect(result).toBeUndefined();
     });
+
+    it("(5) should fall back to the status code range and then default", () => {
+      const specification = {
+        responses: {
+          "2XX": { content: { "application/json": { schema: { type: "string" } } } },
+          default: { content: { "application/json": { schema: { type: "object" } } } }
+        }
+      };
+      expect(getResponseSchema('application/json', specification as any, { statusCode: 201 } as FastifyReply)).toEqual({ type: "string" });
+      expect(getResponseSchema('application/json', specification as any, { statusCode: 500 } as FastifyReply)).toEqual({ type: "object" });
+    });
+
+    it("(6) should match the content type against the declared media types", () => {
+      const specification = {
+        responses: {
+          "400": { content: { "application/problem+json": { schema: { type: "object" } } } }
+        }
+      };
+      const reply = { statusCode: 400 } as FastifyReply;
+      expect(getResponseSchema('application/problem+json; charset=utf-8', specification as any, reply)).toEqual({ type: "object" });
+      expect(getResponseSchema('text/plain', specification as any, reply)).toBeUndefined();
+    });
   });
   
+  describe("getResponseStatusKey", () => {
+    it("(1) should prefer the exact status code", () => {
+      expect(getResponseStatusKey(404, ["default", "4XX", "404"])).toBe("404");
+    });
+
+    it("(2) should fall back to the status code range", () => {
+      expect(getResponseStatusKey(422, ["default", "4XX", "404"])).toBe("4XX");
+      expect(getResponseStatusKey(201, ["2xx"])).toBe("2xx");
+    });
+
+    it("(3) should fall back to default", () => {
+      expect(getResponseStatusKey(503, ["default", "4XX", "404"])).toBe("default");
+    });
+
+    it("(4) should return undefined when nothing matches", () => {
+      expect(getResponseStatusKey(500, ["200", "4XX"])).toBeUndefined();
+    });
+  });
+
+  describe("getMediaTypeMatch", () => {
+    it("(1) should ignore media type parameters and casing", () => {
+      expect(getMediaTypeMatch("Application/JSON; charset=utf-8", ["text/plain", "application/json"])).toBe("application/json");
+    });
+
+    it("(2) should match structured syntax suffixes in both directions", () => {
+      expect(getMediaTypeMatch("application/problem+json", ["application/json"])).toBe("application/json");
+      expect(getMediaTypeMatch("application/json", ["application/problem+json"])).toBe("application/problem+json");
+      expect(getMediaTypeMatch("application/problem+json", ["application/vnd.api+json"])).toBeUndefined();
+    });
+
+    it("(3) should match wildcards", () => {
+      expect(getMediaTypeMatch("text/csv", ["application/json", "text/*"])).toBe("text/*");
+      expect(getMediaTypeMatch("image/png", ["application/json", "*/*"])).toBe("*/*");
+    });
+
+    it("(4) should prefer the most specific match", () => {
+      const mediaTypes = ["*/*", "application/*", "application/json", "application/problem+json"];
+      expect(getMediaTypeMatch("application/problem+json", mediaTypes)).toBe("application/problem+json");
+      expect(getMediaTypeMatch("application/merge-patch+json", mediaTypes)).toBe("application/json");
+      expect(getMediaTypeMatch("application/xml", mediaTypes)).toBe("application/*");
+    });
+
+    it("(5) should return undefined without a content type", () => {
+      expect(getMediaTypeMatch(undefined, ["*/*"])).toBeUndefined();
+    });
+  });
+
+  describe("getFastifySchema", () => {
+    it("(1) should convert parameters and request bodies into native schemas", () => {
+      const specification = {
+        parameters: [
+          { name: "id", in: "path", schema: { type: "integer" } },
+          { name: "limit", in: "query", schema: { type: "integer", nullable: true } },
+          { name: "X-Tenant-Id", in: "header", required: true, schema: { type: "string" } },
+          { name: "session", in: "cookie", schema: { type: "string" } }
+        ],
+        requestBody: { content: { "application/json": { schema: { $ref: "#/components/schemas/User" } } } },
+        responses: {}
+      };
+      expect(getFastifySchema(specification as any)).toEqual({
+        params: { type: "object", properties: { id: { type: "integer" } }, required: ["id"] },
+        querystring: { type: "object", properties: { limit: { type: ["integer", "null"] } } },
+        headers: { type: "object", properties: { "x-tenant-id": { type: "string" } }, required: ["x-tenant-id"] },
+        body: { $ref: `${DOCUMENT_SCHEMA_ID}/components/schemas/User#` }
+      });
+    });
+
+    it("(2) should key request bodies and responses by media type and status", () => {
+      const specification = {
+        requestBody: { content: { "application/json": { schema: { type: "object" } }, "text/plain": { schema: { type: "string" } }, "application/octet-stream": {} } },
+        responses: {
+          200: { description: "OK", content: { "application/json": { schema: { type: "object" } } } },
+          "4XX": { description: "Client Error", content: { "application/problem+json": { schema: { type: "object" } } } },
+          204: { description: "No Content" }
+        }
+      };
+      expect(getFastifySchema(specification as any)).toEqual({
+        body: { content: { "application/json": { schema: { type: "object" } }, "text/plain": { schema: { type: "string" } } } },
+        response: {
+          200: { description: "OK", content: { "application/json": { schema: { type: "object" } } } },
+          "4xx": { description: "Client Error", content: { "application/problem+json": { schema: { type: "object" } } } }
+        }
+      });
+    });
+  });
+
+  describe("getNormalizeConfig", () => {
+    it("(1) should normalize nothing by default", () => {
+      expect(getNormalizeConfig()).toEqual({ defaults: false, additionalProperties: "keep", coerceTypes: false });
+      expect(getNormalizeConfig(false)).toEqual({ defaults: false, additionalProperties: "keep", coerceTypes: false });
+    });
+
+    it("(2) should enable every normalization for true", () => {
+      expect(getNormalizeConfig(true)).toEqual({ defaults: true, additionalProperties: "remove", coerceTypes: true });
+    });
+
+    it("(3) should fill in the missing fields of an object config", () => {
+      expect(getNormalizeConfig({ additionalProperties: "reject" })).toEqual({ defaults: false, additionalProperties: "reject", coerceTypes: false });
+    });
+  });
+
+  describe("getNormalizeAjvOptions", () => {
+    it("(1) should return the config as is when nothing is normalized", () => {
+      const config = { allErrors: true };
+      expect(getNormalizeAjvOptions(config, undefined)).toBe(config);
+    });
+
+    it("(2) should add the Ajv options of the normalization", () => {
+      expect(getNormalizeAjvOptions({ allErrors: true }, true)).toEqual({ allErrors: true, useDefaults: true, removeAdditional: true, coerceTypes: true });
+      expect(getNormalizeAjvOptions(undefined, { defaults: true, additionalProperties: "reject" })).toEqual({ useDefaults: true });
+    });
+  });
+
+  describe("closeObjectSchemas", () => {
+    it("(1) should disallow additional properties of object schemas declaring properties", () => {
+      expect(closeObjectSchemas({ type: "object", properties: { tags: { type: "array", items: { type: "object", properties: { name: { type: "string" } } } } } })).toEqual({
+        type: "object",
+        properties: { tags: { type: "array", items: { type: "object", properties: { name: { type: "string" } }, additionalProperties: false } } },
+        additionalProperties: false
+      });
+    });
+
+    it("(2) should keep explicit additionalProperties and property names", () => {
+      const schema = { type: "object", properties: { allOf: { type: "string" } }, additionalProperties: { type: "string" } };
+      expect(closeObjectSchemas(schema)).toEqual(schema);
+    });
+
+    it("(3) should leave allOf members and their composition open", () => {
+      const schema = { allOf: [{ type: "object", properties: { a: { type: "string" } } }, { type: "object", properties: { b: { type: "string" } } }], properties: { c: { type: "string" } } };
+      expect(closeObjectSchemas(schema)).toEqual(schema);
+    });
+
+    it("(4) should point component refs at the closed components, except allOf members", () => {
+      const ref = `${DOCUMENT_SCHEMA_ID}/components/schemas/Base#`;
+      expect(closeObjectSchemas({ type: "object", properties: { base: { $ref: ref } }, allOf: [{ $ref: ref }] })).toEqual({
+        type: "object",
+        properties: { base: { $ref: `${CLOSED_DOCUMENT_SCHEMA_ID}/components/schemas/Base#` } },
+        allOf: [{ $ref: ref }]
+      });
+    });
+  });
+
+  describe("parseMultipart", () => {
+    it("(1) should split the body into named parts with headers", () => {
+      const body = multipartBody("xyz", [{ name: "title", value: "Hello" }, { name: "file", filename: "a.txt", contentType: "text/plain", value: "line 1\r\nline 2" }]);
+      const parts = parseMultipart(body, "multipart/form-data; boundary=xyz");
+      expect(parts.map(({ name, filename, contentType, data }) => ({ name, filename, contentType, data: data.toString() }))).toEqual([
+        { name: "title", filename: undefined, contentType: undefined, data: "Hello" },
+        { name: "file", filename: "a.txt", contentType: "text/plain", data: "line 1\r\nline 2" }
+      ]);
+    });
+
+    it("(2) should accept quoted boundaries", () => {
+      const body = multipartBody("a b", [{ name: "empty", value: "" }]);
+      expect(parseMultipart(body, 'multipart/form-data; boundary="a b"')[0].data.length).toBe(0);
+    });
+
+    it("(3) should reject bodies without a boundary or with malformed parts", () => {
+      expect(() => parseMultipart(Buffer.from("x"), "multipart/form-data")).toThrow(expect.objectContaining({ statusCode: 400 }));
+      expect(() => parseMultipart(Buffer.from("--xyz\r\nno headers"), "multipart/form-data; boundary=xyz")).toThrow(expect.objectContaining({ statusCode: 400 }));
+    });
+  });
+
+  describe("getMultipartBody", () => {
+    const media = {
+      schema: {
+        type: "object",
+        properties: {
+          count: { type: "integer" },
+          meta: { type: "object" },
+          files: { type: "array", items: { type: "string", format: "binary", maxLength: 4 } }
+        }
+      },
+      encoding: { files: { contentType: "text/*" } }
+    };
+    const part = (name: string, value: string, extra: { filename?: string, contentType?: string } = {}) => ({ name, headers: {}, data: Buffer.from(value), ...extra });
+
+    it("(1) should coerce fields, parse JSON parts and collect files", () => {
+      const body = getMultipartBody([part("count", "3"), part("meta", '{"a":1}'), part("files", "one", { filename: "1.txt", contentType: "text/plain" }), part("files", "two", { filename: "2.txt" })], media);
+      expect(body.count).toBe(3);
+      expect(body.meta).toEqual({ a: 1 });
+      expect(body.files.map((file: any) => [file.fieldname, file.filename, file.mimetype, file.size, file.data.toString()])).toEqual([
+        ["files", "1.txt", "text/plain", 3, "one"],
+        ["files", "2.txt", "application/octet-stream", 3, "two"]
+      ]);
+    });
+
+    it("(2) should enforce maxLength and the encoding content types", () => {
+      expect(() => getMultipartBody([part("files", "too long", { filename: "1.txt" })], media)).toThrow(expect.objectContaining({ statusCode: 413 }));
+      expect(() => getMultipartBody([part("files", "png", { filename: "1.png", contentType: "image/png" })], media)).toThrow(expect.objectContaining({ statusCode: 415 }));
+      expect(() => getMultipartBody([part("meta", "{")], media)).toThrow(expect.objectContaining({ statusCode: 400 }));
+    });
+
+    it("(3) should keep undeclared fields and files", () => {
+      const body = getMultipartBody([part("note", "hi"), part("note", "there"), part("doc", "x", { filename: "x.bin" })], undefined);
+      expect(body.note).toEqual(["hi", "there"]);
+      expect(body.doc.filename).toBe("x.bin");
+    });
+  });
+
+  describe("toMultipartSchema", () => {
+    it("(1) should accept any value for binary properties", () => {
+      const schema = { type: "object", properties: { name: { type: "string" }, file: { type: "string", format: "binary" }, files: { type: "array", items: { type: "string", format: "binary" }, maxItems: 2 } } };
+      expect(toMultipartSchema(schema)).toEqual({ type: "object", properties: { name: { type: "string" }, file: {}, files: { type: "array", items: {}, maxItems: 2 } } });
+    });
+  });
+
+  describe("getUrlEncodedBody", () => {
+    const media = {
+      schema: {
+        type: "object",
+        properties: {
+          name: { type: "string" },
+          age: { type: "integer" },
+          active: { type: "boolean" },
+          tags: { type: "array", items: { type: "string" } },
+          ids: { type: "array", items: { type: "integer" } },
+          filter: { type: "object", properties: { status: { type: "string" } } },
+          meta: { type: "object" }
+        }
+      },
+      encoding: {
+        ids: { style: "form", explode: false },
+        filter: { style: "deepObject", explode: true },
+        meta: { contentType: "application/json" }
+      }
+    };
+
+    it("(1) should decode and coerce fields according to the schema", () => {
+      expect(getUrlEncodedBody("name=Ada+Lovelace&age=42&active=true&tags=a&tags=b", media)).toEqual({ name: "Ada Lovelace", age: 42, active: true, tags: ["a", "b"] });
+    });
+
+    it("(2) should honor the style and explode of the encoding object", () => {
+      expect(getUrlEncodedBody("ids=1,2,3&filter%5Bstatus%5D=open", media)).toEqual({ ids: [1, 2, 3], filter: { status: "open" } });
+    });
+
+    it("(3) should parse JSON encoded fields and keep undeclared fields as strings", () => {
+      expect(getUrlEncodedBody(`meta=${encodeURIComponent('{"a":1}')}&extra=x`, media)).toEqual({ meta: { a: 1 }, extra: "x" });
+      expect(() => getUrlEncodedBody("meta=%7Bnope", media)).toThrow("[openapi-fastify] Form field \"meta\" is not valid JSON");
+    });
+  });
+
+  describe("getSecurityCredentials", () => {
+    it("(1) should extract bearer and basic credentials from the Authorization header", () => {
+      expect(getSecurityCredentials({ type: "http", scheme: "bearer" }, { headers: { authorization: "Bearer abc" } } as any)).toEqual({ type: "http", scheme: "bearer", value: "abc" });
+      const basic = Buffer.from("ada:s3cr:et").toString("base64");
+      expect(getSecurityCredentials({ type: "http", scheme: "Basic" }, { headers: { authorization: `Basic ${basic}` } } as any)).toEqual({ type: "http", scheme: "basic", value: basic, username: "ada", password: "s3cr:et" });
+    });
+
+    it("(2) should extract API keys from headers, query parameters and cookies", () => {
+      const request = { headers: { "x-api-key": "header-key", cookie: "key=cookie-key" }, query: { key: "query-key" } } as any;
+      expect(getSecurityCredentials({ type: "apiKey", in: "header", name: "X-API-Key" }, request)).toEqual({ type: "apiKey", value: "header-key" });
+      expect(getSecurityCredentials({ type: "apiKey", in: "query", name: "key" }, request)).toEqual({ type: "apiKey", value: "query-key" });
+      expect(getSecurityCredentials({ type: "apiKey", in: "cookie", name: "key" }, request)).toEqual({ type: "apiKey", value: "cookie-key" });
+    });
+
+    it("(3) should return undefined when the request does not carry the credentials", () => {
+      expect(getSecurityCredentials({ type: "http", scheme: "bearer" }, { headers: {} } as any)).toBeUndefined();
+      expect(getSecurityCredentials({ type: "http", scheme: "bearer" }, { headers: { authorization: "Basic abc" } } as any)).toBeUndefined();
+      expect(getSecurityCredentials({ type: "apiKey", in: "header", name: "x-api-key" }, { headers: {} } as any)).toBeUndefined();
+    });
+  });
+
+  describe("authorizeRequest", () => {
+    const schemes = {
+      bearerAuth: { type: "http", scheme: "bearer" },
+      apiKey: { type: "apiKey", in: "header", name: "x-api-key" }
+    } as any;
+    const verifiers = {
+      bearerAuth: jest.fn(({ value }: any) => value === "admin" ? { user: "admin", scopes: "users:read users:write" } : value === "reader" ? { user: "reader", scopes: ["users:read"] } : undefined),
+      apiKey: jest.fn(({ value }: any) => value === "key" && { service: "internal" })
+    };
+    const request = (headers: Record<string, string>) => ({ headers, query: {} }) as any;
+
+    beforeEach(() => {
+      jest.clearAllMocks();
+    });
+
+    it("(1) should authorize when any requirement is satisfied (OR)", async () => {
+      const requirements: Record<string, string[]>[] = [{ bearerAuth: ["users:write"] }, { apiKey: [] }];
+      expect(await authorizeRequest(request({ authorization: "Bearer admin" }), requirements, { schemes, verifiers })).toEqual({ auth: { bearerAuth: { user: "admin", scopes: "users:read users:write" } } });
+      expect(await authorizeRequest(request({ "x-api-key": "key" }), requirements, { schemes, verifiers })).toEqual({ auth: { apiKey: { service: "internal" } } });
+    });
+
+    it("(2) should require every scheme of a requirement (AND)", async () => {
+      const requirements = [{ bearerAuth: [], apiKey: [] }];
+      expect((await authorizeRequest(request({ authorization: "Bearer reader" }), requirements, { schemes, verifiers })).error?.statusCode).toBe(401);
+      expect((await authorizeRequest(request({ authorization: "Bearer reader", "x-api-key": "key" }), requirements, { schemes, verifiers })).auth).toEqual({ bearerAuth: { user: "reader", scopes: ["users:read"] }, apiKey: { service: "internal" } });
+    });
+
+    it("(3) should fail with 401 and challenges when no requirement can be authenticated", async () => {
+      const result = await authorizeRequest(request({ authorization: "Bearer nobody" }), [{ bearerAuth: [] }, { apiKey: [] }], { schemes, verifiers });
+      expect(result.error).toEqual({ statusCode: 401, challenges: ["Bearer"], missingScopes: [] });
+    });
+
+    it("(4) should fail with 403 when authenticated without the required scopes, verifying each scheme once", async () => {
+      const result = await authorizeRequest(request({ authorization: "Bearer reader" }), [{ bearerAuth: ["users:write"] }, { bearerAuth: ["users:admin", "users:write"] }], { schemes, verifiers });
+      expect(result.error).toEqual({ statusCode: 403, challenges: [], missingScopes: ["users:write"] });
+      expect(verifiers.bearerAuth).toHaveBeenCalledTimes(1);
+    });
+
+    it("(5) should authorize anonymous requests when there are no requirements or an empty one", async () => {
+      expect(await authorizeRequest(request({}), [], { schemes, verifiers })).toEqual({ auth: {} });
+      expect(await authorizeRequest(request({}), [{ bearerAuth: [] }, {}], { schemes, verifiers })).toEqual({ auth: {} });
+    });
+  });
+
+  describe("toYaml", () => {
+    it("(1) should serialize nested objects and arrays as block YAML", () => {
+      expect(toYaml({ info: { title: "My API" }, tags: ["a", "b"], parameters: [{ name: "id", in: "path" }], empty: {}, none: [] })).toBe([
+        "info:",
+        "  title: My API",
+        "tags:",
+        "  - a",
+        "  - b",
+        "parameters:",
+        "  - name: id",
+        "    in: path",
+        "empty: {}",
+        "none: []",
+        ""
+      ].join("\n"));
+    });
+
+    it("(2) should quote strings that would not read back as the same string", () => {
+      expect(toYaml({ openapi: "3.1.0", "200": "true", "/users/{id}": "#/components/schemas/User", text: "a: b", count: 1, flag: false, value: null })).toBe([
+        "\"200\": \"true\"",
+        "openapi: 3.1.0",
+        "/users/{id}: \"#/components/schemas/User\"",
+        "text: \"a: b\"",
+        "count: 1",
+        "flag: false",
+        "value: null",
+        ""
+      ].join("\n"));
+    });
+  });
+
+  describe("parseYaml", () => {
+    it("(1) should parse block and flow collections, scalars, block scalars and aliases", () => {
+      expect(parseYaml([
+        "openapi: 3.1.0",
+        "info:",
+        "  title: \"My API\"  # comment",
+        "  version: '1.0'",
+        "  description: |",
+        "    Line one",
+        "",
+        "    Line two",
+        "  summary: >-",
+        "    folded",
+        "    text",
+        "paths:",
+        "  /users/{id}:",
+        "    parameters:",
+        "      - name: id",
+        "        in: path",
+        "        schema: {type: integer, minimum: 1}",
+        "    get:",
+        "      tags: [users, \"admin, users\"]",
+        "      responses:",
+        "        404: &notFound",
+        "          description: Not",
+        "            found",
+        "        default: *notFound",
+        "      x-empty:",
+        "      x-list:",
+        "      - - 1",
+        "        - ~",
+        "      - -1.5e3",
+      ].join("\n"))).toEqual({
+        openapi: "3.1.0",
+        info: { title: "My API", version: "1.0", description: "Line one\n\nLine two\n", summary: "folded text" },
+        paths: {
+          "/users/{id}": {
+            parameters: [{ name: "id", in: "path", schema: { type: "integer", minimum: 1 } }],
+            get: {
+              tags: ["users", "admin, users"],
+              responses: { 404: { description: "Not found" }, default: { description: "Not found" } },
+              "x-empty": null,
+              "x-list": [[1, null], -1500]
+            }
+          }
+        }
+      });
+    });
+
+    it("(2) should read back the output of toYaml", () => {
+      const value = { openapi: "3.1.0", "200": "true", "/users/{id}": "#/components/schemas/User", text: "a: b\nc", list: [{ name: "id", in: "path" }, [1, [2]]], empty: {}, none: [], flag: false, value: null };
+      expect(parseYaml(toYaml(value))).toEqual(value);
+    });
+
+    it("(3) should throw with the line of malformed input", () => {
+      expect(() => parseYaml("info:\n  title: a\n    version: b")).toThrow(/^\[openapi-fastify\] Invalid YAML: .* at line 2, column 10/);
+      expect(() => parseYaml("tags: [a, b")).toThrow(/^\[openapi-fastify\] Invalid YAML: .* at line 1, column 12/);
+    });
+  });
+
+  describe("isETagMatch", () => {
+    it("(1) should match exact, listed, weak and wildcard ETags", () => {
+      expect(isETagMatch('"abc"', '"abc"')).toBe(true);
+      expect(isETagMatch('"xyz", W/"abc"', '"abc"')).toBe(true);
+      expect(isETagMatch("*", '"abc"')).toBe(true);
+      expect(isETagMatch('"xyz"', '"abc"')).toBe(false);
+      expect(isETagMatch(undefined, '"abc"')).toBe(false);
+    });
+  });
+
+  describe("getDocsHtml", () => {
+    it("(1) should embed the document without breaking out of its script tag", () => {
+      const html = getDocsHtml({ info: { title: "<API>", version: "1" }, paths: { "/a": { get: { summary: "</script><script>alert(1)</script>" } } } }, { json: "/openapi.json" });
+      expect(html).toContain("<title>&#60;API&#62;</title>");
+      expect(html).toContain('<a href="/openapi.json">JSON</a>');
+      expect(html).not.toContain("</script><script>alert(1)");
+      expect(html).not.toMatch(/<(script|link)[^>]+(src|href)=/);
+    });
+  });
+
+  describe("getDocumentOperations", () => {
+    it("(1) should list the operations of the document's paths with their path item parameters", () => {
+      const document = {
+        components: { parameters: { Id: { name: "id", in: "path", required: true } } },
+        paths: {
+          "/users/{id}": {
+            parameters: [{ $ref: "#/components/parameters/Id" }, { name: "verbose", in: "query" }],
+            get: { operationId: "getUser", responses: {} },
+            put: { operationId: "updateUser", parameters: [{ name: "verbose", in: "query", required: true }], responses: {} },
+            summary: "A user"
+          },
+          "/users": { post: { operationId: "createUser", responses: {} } }
+        }
+      };
+      expect(getDocumentOperations(document)).toEqual([
+        { path: "/users/{id}", method: "get", specification: { operationId: "getUser", parameters: [{ $ref: "#/components/parameters/Id" }, { name: "verbose", in: "query" }], responses: {} } },
+        { path: "/users/{id}", method: "put", specification: { operationId: "updateUser", parameters: [{ $ref: "#/components/parameters/Id" }, { name: "verbose", in: "query", required: true }], responses: {} } },
+        { path: "/users", method: "post", specification: { operationId: "createUser", responses: {} } }
+      ]);
+    });
+  });
+
+  describe("getMockValue", () => {
+    it("(1) should prefer examples, defaults, consts and enums", () => {
+      expect(getMockValue({ type: "string", example: "Ada" })).toBe("Ada");
+      expect(getMockValue({ type: "string", examples: ["Grace"] })).toBe("Grace");
+      expect(getMockValue({ type: "integer", default: 10 })).toBe(10);
+      expect(getMockValue({ const: "fixed" })).toBe("fixed");
+      expect(getMockValue({ type: "string", enum: ["admin", "user"] })).toBe("admin");
+    });
+
+    it("(2) should generate values honoring formats and bounds", () => {
+      expect(getMockValue({ type: "string", format: "email" })).toBe("user@example.com");
+      expect(getMockValue({ type: "string", format: "date-time" })).toBe("2024-01-01T00:00:00.000Z");
+      expect(getMockValue({ type: "string", format: "uuid" })).toMatch(/^[0-9a-f-]{36}$/);
+      expect(getMockValue({ type: "string", minLength: 10 })).toHaveLength(10);
+      expect(getMockValue({ type: "string", maxLength: 3 })).toBe("str");
+      expect(getMockValue({ type: "integer", minimum: 5, maximum: 10 })).toBe(5);
+      expect(getMockValue({ type: "integer", exclusiveMinimum: 5 })).toBe(6);
+      expect(getMockValue({ type: "number", minimum: 1, multipleOf: 0.25 })).toBe(1);
+      expect(getMockValue({ type: "integer", minimum: 3, multipleOf: 5 })).toBe(5);
+      expect(getMockValue({ type: ["string", "null"] })).toBe("string");
+      expect(getMockValue({ type: "boolean" })).toBe(true);
+    });
+
+    it("(3) should generate objects, arrays within their bounds and referenced schemas", () => {
+      const document = { components: { schemas: { Tag: { type: "object", properties: { name: { type: "string" } } } } } };
+      expect(getMockValue({
+        type: "object",
+        properties: {
+          id: { type: "integer", minimum: 1 },
+          tags: { type: "array", items: { $ref: "#/components/schemas/Tag" }, minItems: 2 },
+          empty: { type: "array", items: { type: "string" }, maxItems: 0 },
+          owner: { allOf: [{ type: "object", properties: { id: { type: "integer" } } }, { type: "object", properties: { role: { enum: ["admin"] } } }] },
+          contact: { oneOf: [{ type: "string", format: "email" }, { type: "integer" }] }
+        }
+      }, document)).toEqual({ id: 1, tags: [{ name: "string" }, { name: "string" }], empty: [], owner: { id: 0, role: "admin" }, contact: "user@example.com" });
+    });
+
+    it("(4) should stop at recursive schemas", () => {
+      const document = { components: { schemas: { Node: { type: "object", properties: { id: { type: "integer" }, children: { type: "array", items: { $ref: "#/components/schemas/Node" } } } } } } };
+      expect(() => getMockValue({ $ref: "#/components/schemas/Node" }, document)).not.toThrow();
+    });
+  });
+
+  describe("getMockResponse", () => {
+    const specification = {
+      responses: {
+        201: {
+          description: "Created",
+          content: {
+            "application/xml": { schema: { type: "string" } },
+            "application/json": {
+              schema: { type: "object", properties: { id: { type: "integer" } } },
+              examples: { alice: { value: { id: 1, name: "alice" } }, bob: { value: { id: 2, name: "bob" } } }
+            }
+          }
+        },
+        "4XX": { description: "Client Error", content: { "application/problem+json": { example: { title: "Client Error" } } } },
+        default: { description: "Error", content: { "application/json": { schema: { type: "object", properties: { error: { type: "string", default: "Unexpected" } } } } } }
+      }
+    };
+
+    it("(1) should answer with the first success response and example of its JSON media type", () => {
+      expect(getMockResponse(specification as any)).toEqual({ statusCode: 201, contentType: "application/json", body: { id: 1, name: "alice" } });
+    });
+
+    it("(2) should pick the requested status and named example", () => {
+      expect(getMockResponse(specification as any, undefined, { example: "bob" }).body).toEqual({ id: 2, name: "bob" });
+      expect(getMockResponse(specification as any, undefined, { status: "404" })).toEqual({ statusCode: 404, contentType: "application/problem+json", body: { title: "Client Error" } });
+      expect(getMockResponse(specification as any, undefined, { status: "503" })).toEqual({ statusCode: 503, contentType: "application/json", body: { error: "Unexpected" } });
+    });
+
+    it("(3) should generate the body from the schema and answer responses without content", () => {
+      expect(getMockResponse({ responses: { 200: { description: "OK", content: { "application/json": { schema: { type: "array", items: { type: "integer" } } } } } } } as any)).toEqual({ statusCode: 200, contentType: "application/json", body: [0] });
+      expect(getMockResponse({ responses: { 204: { description: "No Content" } } } as any)).toEqual({ statusCode: 204 });
+    });
+  });
+
+  describe("serializeQuery", () => {
+    it("(1) should serialize values according to the style and explode of their parameters", () => {
+      const parameters: any[] = [
+        { name: "ids", in: "query", explode: false },
+        { name: "tags", in: "query", style: "pipeDelimited", explode: false },
+        { name: "filter", in: "query", style: "deepObject" },
+        { name: "point", in: "query" },
+        { name: "where", in: "query", content: { "application/json": { schema: { type: "object" } } } }
+      ];
+      const query = serializeQuery({ ids: [1, 2], tags: ["a", "b"], filter: { status: "open" }, point: { x: 1, y: 2 }, where: { id: 1 }, page: 2, colors: ["red", "blue"], skip: undefined }, parameters);
+      expect([...new URLSearchParams(query)]).toEqual([
+        ["ids", "1,2"], ["tags", "a|b"], ["filter[status]", "open"], ["x", "1"], ["y", "2"], ["where", '{"id":1}'], ["page", "2"], ["colors", "red"], ["colors", "blue"]
+      ]);
+    });
+  });
+
+  describe("getClientInjectOptions", () => {
+    const specification: any = {
+      parameters: [{ name: "sort", in: "query", explode: false }],
+      requestBody: {
+        content: {
+          "application/x-www-form-urlencoded": { schema: { type: "object" }, encoding: { meta: { contentType: "application/json" } } },
+          "application/json": { schema: { type: "object" } }
+        }
+      },
+      responses: {}
+    };
+
+    it("(1) should build the URL, headers and JSON body of a request", () => {
+      expect(getClientInjectOptions("put", "/api/users/:id", { params: { id: 1 }, query: { sort: ["name", "id"] }, headers: { "X-Tenant": "acme" }, cookies: { session: "abc" }, body: { name: "Ada" } }, { specification, headers: { authorization: "Bearer token" } })).toEqual({
+        method: "PUT",
+        url: "/api/users/1?sort=name%2Cid",
+        headers: { authorization: "Bearer token", "x-tenant": "acme", "content-type": "application/json" },
+        cookies: { session: "abc" },
+        payload: '{"name":"Ada"}'
+      });
+    });
+
+    it("(2) should encode form bodies with their encoding and throw on missing path parameters", () => {
+      const options = getClientInjectOptions("post", "/users", { body: { name: "Ada", meta: { admin: true } }, contentType: "application/x-www-form-urlencoded" }, { specification });
+      expect(options.payload).toBe("name=Ada&meta=%7B%22admin%22%3Atrue%7D");
+      expect(() => getClientInjectOptions("get", "/users/:id", {}, { specification })).toThrow('[openapi-fastify] Missing path parameter "id" (GET /users/:id)');
+    });
+  });
+
+  describe("getLintConfig", () => {
+    it("(1) should default every rule to warn, and turn them off with false", () => {
+      expect(getLintConfig()).toEqual({ strict: false, rules: LINT_RULE_DEFAULTS });
+      expect(Object.values(getLintConfig(false).rules)).toEqual(Object.values(LINT_RULE_DEFAULTS).map(() => "off"));
+      expect(getLintConfig({ strict: true, rules: { responses: "error" } })).toEqual({ strict: true, rules: { ...LINT_RULE_DEFAULTS, responses: "error" } });
+    });
+  });
+
+  describe("lintOperations", () => {
+    const ok = { responses: { 200: { description: "OK" } } };
+
+    it("(1) should report undeclared and unused path parameters", () => {
+      const violations = lintOperations([{ method: "get", path: "/users/:id", specification: { ...ok, parameters: [{ name: "userId", in: "path", required: true }] } as any }], { rules: LINT_RULE_DEFAULTS });
+      expect(violations).toEqual([
+        { rule: "path-parameters", level: "warn", message: 'Path parameter "id" is not declared', method: "get", path: "/users/:id" },
+        { rule: "path-parameters", level: "warn", message: 'Path parameter "userId" is declared but not in the path', method: "get", path: "/users/:id" }
+      ]);
+    });
+
+    it("(2) should report duplicate operationIds and missing responses", () => {
+      const violations = lintOperations([
+        { method: "get", path: "/a", specification: { ...ok, operationId: "list" } as any },
+        { method: "get", path: "/b", specification: { operationId: "list", responses: {} } as any }
+      ], { rules: LINT_RULE_DEFAULTS });
+      expect(violations.map(violation => [violation.rule, violation.message])).toEqual([
+        ["unique-operation-ids", 'operationId "list" is already used by GET /a'],
+        ["responses", "No responses are declared"]
+      ]);
+    });
+
+    it("(3) should report unresolved refs of operations and ref() calls", () => {
+      const document = { components: { schemas: { User: { type: "object" } } } };
+      const specification = { responses: { 200: { description: "OK", content: { "application/json": { schema: { type: "array", items: { $ref: "#/components/schemas/Usr" } } } } }, 201: { $ref: "#/components/schemas/User" } } };
+      const violations = lintOperations([{ method: "post", path: "/users", specification: specification as any }], { document, unresolvedRefs: ["#/components/schemas/Nope"], rules: LINT_RULE_DEFAULTS });
+      expect(violations.map(violation => violation.message)).toEqual(['"#/components/schemas/Usr" does not resolve in the document', 'ref("#/components/schemas/Nope") does not resolve in the document']);
+    });
+
+    it("(4) should report path parameter names that differ between routes of the same path", () => {
+      const parameter = (name: string) => ({ name, in: "path", required: true });
+      const violations = lintOperations([
+        { method: "get", path: "/users/:id", specification: { ...ok, parameters: [parameter("id")] } as any },
+        { method: "delete", path: "/users/:userId", specification: { ...ok, parameters: [parameter("userId")] } as any }
+      ], { rules: LINT_RULE_DEFAULTS });
+      expect(violations).toEqual([{ rule: "consistent-path-parameters", level: "warn", message: "Path parameters differ from /users/:id (id)", method: "delete", path: "/users/:userId" }]);
+    });
+
+    it("(5) should apply the configured levels and skip rules that are off", () => {
+      const violations = lintOperations([{ method: "get", path: "/users/:id", specification: { responses: {} } as any }], { rules: { ...LINT_RULE_DEFAULTS, "path-parameters": "off", responses: "error" } });
+      expect(violations).toEqual([{ rule: "responses", level: "error", message: "No responses are declared", method: "get", path: "/users/:id" }]);
+    });
+  });
+
+  describe("compileOperationValidators", () => {
+    const specification = {
+      requestBody: {
+        content: {
+          "application/json": {
+            schema: { type: "object", properties: { name: { type: "string" } }, required: ["name"] }
+          },
+          "text/plain": {}
+        }
+      },
+      responses: {
+        "200": {
+          content: {
+            "application/json": {
+              schema: { type: "object", properties: { id: { type: "number" } }, required: ["id"] }
+            }
+          }
+        },
+        "204": { description: "No Content" }
+      }
+    };
+
+    it("(1) should compile validators per content type and status code", () => {
+      const result = compileOperationValidators(createAjv(), specification as any);
+      expect(Object.keys(result.request)).toEqual(["application/json"]);
+      expect(Object.keys(result.response)).toEqual(["200"]);
+      expect(result.request["application/json"]({ name: "test" })).toBe(true);
+      expect(result.request["application/json"]({})).toBe(false);
+      expect(result.response["200"]["application/json"]({ id: 1 })).toBe(true);
+      expect(result.response["200"]["application/json"]({ id: "1" })).toBe(false);
+    });
+
+    it("(2) should skip request or response validators when disabled", () => {
+      const result = compileOperationValidators(createAjv(), specification as any, { request: false, response: true });
+      expect(result.request).toEqual({});
+      expect(result.response["200"]).toBeDefined();
+      const result2 = compileOperationValidators(createAjv(), specification as any, { request: true, response: false });
+      expect(result2.request["application/json"]).toBeDefined();
+      expect(result2.response).toEqual({});
+    });
+
+    it("(3) should throw when a schema cannot be compiled", () => {
+      const invalid = {
+        requestBody: { content: { "application/json": { schema: { type: "not-a-type" } } } }
+      };
+      expect(() => compileOperationValidators(createAjv(), invalid as any, { name: "POST /test" }))
+        .toThrow(/Failed to compile request body schema of POST \/test \(application\/json\)/);
+    });
+  });
+
+  describe("createAjv", () => {
+    it("(1) should use the draft-07 dialect for OpenAPI 3.0 documents", () => {
+      expect(isOpenApi31({ openapi: "3.0.3" })).toBe(false);
+      expect(createAjv(undefined, { openapi: "3.0.3" })).not.toBeInstanceOf(Ajv2020);
+    });
+
+    it("(2) should use the 2020-12 dialect for OpenAPI 3.1 documents", () => {
+      expect(isOpenApi31({ openapi: "3.1.0" })).toBe(true);
+      const ajv = createAjv(undefined, { openapi: "3.1.0" });
+      expect(ajv).toBeInstanceOf(Ajv2020);
+      const validate = ajv.compile({ type: "array", prefixItems: [{ type: "string" }, { type: "number" }], minItems: 2, items: false });
+      expect(validate(["a", 1])).toBe(true);
+      expect(validate(["a", 1, 2])).toBe(false);
+    });
+  });
+
+  describe("resolveSchemaRefs", () => {
+    it("(1) should point local refs at the registered document", () => {
+      const schema = { type: "array", items: { $ref: "#/components/schemas/User" }, not: { $ref: "#/components/responses/NotFound/content/application~1json/schema" } };
+      expect(resolveSchemaRefs(schema)).toEqual({
+        type: "array",
+        items: { $ref: `${DOCUMENT_SCHEMA_ID}/components/schemas/User#` },
+        not: { $ref: `${DOCUMENT_SCHEMA_ID}#/components/responses/NotFound/content/application~1json/schema` }
+      });
+    });
+
+    it("(2) should leave external refs untouched and not mutate the schema", () => {
+      const schema = { allOf: [{ $ref: "https://example.com/schema.json" }, { $ref: "#/components/schemas/User" }] };
+      const result = resolveSchemaRefs(schema);
+      expect(result.allOf[0].$ref).toBe("https://example.com/schema.json");
+      expect(result.allOf[1].$ref).toBe(`${DOCUMENT_SCHEMA_ID}/components/schemas/User#`);
+      expect(schema.allOf[1].$ref).toBe("#/components/schemas/User");
+    });
+
+    it("(3) should leave schema-relative refs untouched", () => {
+      const schema = { $defs: { Id: { type: "integer" } }, properties: { id: { $ref: "#/$defs/Id" } } };
+      expect(resolveSchemaRefs(schema)).toEqual(schema);
+    });
+  });
+
+  describe("resolveNullable", () => {
+    it("(1) should widen type to include null", () => {
+      expect(resolveNullable({ type: "string", nullable: true })).toEqual({ type: ["string", "null"] });
+      expect(resolveNullable({ type: ["string", "number"], nullable: true })).toEqual({ type: ["string", "number", "null"] });
+    });
+
+    it("(2) should add null to enum", () => {
+      expect(resolveNullable({ type: "string", enum: ["a", "b"], nullable: true })).toEqual({ type: ["string", "null"], enum: ["a", "b", null] });
+    });
+
+    it("(3) should wrap schemas without a type in anyOf", () => {
+      expect(resolveNullable({ allOf: [{ $ref: "#/components/schemas/User" }], nullable: true })).toEqual({
+        anyOf: [{ allOf: [{ $ref: "#/components/schemas/User" }] }, { type: "null" }]
+      });
+    });
+
+    it("(4) should resolve nested schemas and drop nullable: false", () => {
+      const schema = {
+        type: "object",
+        nullable: false,
+        properties: {
+          tags: { type: "array", items: { type: "string", nullable: true } },
+          nullable: { type: "boolean", nullable: true }
+        }
+      };
+      expect(resolveNullable(schema)).toEqual({
+        type: "object",
+        properties: {
+          tags: { type: "array", items: { type: ["string", "null"] } },
+          nullable: { type: ["boolean", "null"] }
+        }
+      });
+    });
+  });
+
+  describe("dereference", () => {
+    const document = {
+      components: {
+        responses: {
+          NotFound: { description: "Not Found" },
+          Missing: { $ref: "#/components/responses/NotFound" }
+        }
+      }
+    };
+
+    it("(1) should return non reference values as is", () => {
+      const value = { description: "OK" };
+      expect(dereference(document, value)).toBe(value);
+    });
+
+    it("(2) should follow (chained) references", () => {
+      expect(dereference(document, { $ref: "#/components/responses/NotFound" })).toEqual({ description: "Not Found" });
+      expect(dereference(document, { $ref: "#/components/responses/Missing" })).toEqual({ description: "Not Found" });
+    });
+
+    it("(3) should return undefined for unresolvable references", () => {
+      expect(dereference(document, { $ref: "#/components/responses/Unknown" })).toBeUndefined();
+    });
+  });
+
   describe("isObject", () => {
     it("(1) should return true for plain objects", () => {
       expect(isObject({})).toBe(true);
@@ -397,125 +1276,177 @@ describe("Utilities", () => {
       expect(result.params.id).toBe(1);
       expect(result.headers["x-is-cool"]).toBe(true);
     });
-  });
 
-  describe("validateRequestBody", () => {
-    it("(1) should return valid when requestBody is missing", () => {
-      const specification = {};
+    it("(5) should report missing required and uncoercible parameters", () => {
+      const specification = {
+        parameters: [
+          { name: "limit", in: "query", schema: { type: "integer" } },
+          { name: "active", in: "query", schema: { type: "boolean" } },
+          { name: "id", in: "path", required: true, schema: { type: "integer" } },
+          { name: "X-Tenant-Id", in: "header", required: true, schema: { type: "string" } }
+        ]
+      };
       const request = {
-        body: { name: "test" }
-      } as FastifyRequest;
-      const result = validateRequestBody(specification as any, request);
-      expect(result.isValid).toBe(true);
+        query: { limit: "abc", active: "yes" },
+        params: {},
+        headers: {}
+      } as any as FastifyRequest;
+      const result = parseOperationParameters(specification as any, request);
+      expect(result.query.limit).toBe("abc");
+      expect(result.errors).toEqual([
+        { name: "limit", in: "query", message: "must be integer" },
+        { name: "active", in: "query", message: "must be boolean" },
+        { name: "id", in: "path", message: "is required" },
+        { name: "X-Tenant-Id", in: "header", message: "is required" }
+      ]);
     });
 
-    it("(2) should validate valid request body", () => {
+    it("(6) should validate coerced parameters against their compiled schemas", () => {
       const specification = {
-        requestBody: {
-          content: {
-            "application/json": {
-              schema: {
-                type: "object",
-                properties: {
-                  name: { type: "string" },
-                  age: { type: "number" }
-                },
-                required: ["name"]
-              }
-            }
-          }
-        }
+        parameters: [
+          { name: "limit", in: "query", schema: { type: "integer", minimum: 1 } },
+          { name: "code", in: "query", schema: { type: "string", pattern: "^[A-Z]+$" } },
+          { name: "X-Tenant-Id", in: "header", schema: { type: "string", enum: ["acme"] } }
+        ]
       };
+      const { parameters: validators } = compileOperationValidators(createAjv(), specification as any);
       const request = {
-        body: { name: "test", age: 25 }
-      } as FastifyRequest;
-      const result = validateRequestBody(specification as any, request);
-      expect(result.isValid).toBe(true);
-    });
-
-    it("(3) should return invalid for missing required fields", () => {
+        query: { limit: "0", code: "abc" },
+        params: {},
+        headers: { "x-tenant-id": "other" }
+      } as any as FastifyRequest;
+      const result = parseOperationParameters(specification as any, request, { validators });
+      expect(result.errors).toEqual([
+        { name: "limit", in: "query", message: "must be >= 1" },
+        { name: "code", in: "query", message: 'must match pattern "^[A-Z]+$"' },
+        { name: "X-Tenant-Id", in: "header", message: "must be equal to one of the allowed values" }
+      ]);
+    });
+
+    it("(7) should resolve parameter refs from the document", () => {
+      const document = { components: { parameters: { Limit: { name: "limit", in: "query", schema: { type: "integer" } } } } };
+      const specification = { parameters: [{ $ref: "#/components/parameters/Limit" }] };
+      const request = { query: { limit: "5" }, params: {}, headers: {} } as any as FastifyRequest;
+      const result = parseOperationParameters(specification as any, request, { document });
+      expect(result.query.limit).toBe(5);
+      expect(result.errors).toEqual([]);
+    });
+    it("(8) should coerce array items and object properties to their schema types", () => {
       const specification = {
-        requestBody: {
-          content: {
-            "application/json": {
-              schema: {
-                type: "object",
-                properties: {
-                  name: { type: "string" }
-                },
-                required: ["name"]
-              }
-            }
-          }
-        }
+        parameters: [
+          { name: "ids", in: "query", explode: false, schema: { type: "array", items: { type: "integer" } } },
+          { name: "filter", in: "query", style: "deepObject", schema: { type: "object", properties: { active: { type: "boolean" }, limit: { type: "integer" } } } },
+          { name: "flags", in: "query", schema: { type: "array", items: { type: "boolean" } } }
+        ]
       };
       const request = {
-        body: {}
-      } as FastifyRequest;
-      const result = validateRequestBody(specification as any, request);
-      expect(result.isValid).toBe(false);
-      expect(result.errors).toBeDefined();
+        query: { ids: "1,2,x", "filter[active]": "true", "filter[limit]": "2", flags: ["true", "false"] },
+        params: {},
+        headers: {}
+      } as any as FastifyRequest;
+      const result = parseOperationParameters(specification as any, request);
+      expect(result.query.filter).toEqual({ active: true, limit: 2 });
+      expect(result.query.flags).toEqual([true, false]);
+      expect(result.errors).toEqual([{ name: "ids", in: "query", message: "/2 must be integer" }]);
     });
-  });
 
-  describe("validateResponse", () => {
-    it("(1) should return valid when responses is missing", () => {
-      const specification = {};
-      const reply = {
-        statusCode: 200
-      } as FastifyReply;
-      const result = validateResponse(specification as any, reply, { data: "test" });
-      expect(result.isValid).toBe(true);
+    it("(9) should treat empty query values as missing unless allowEmptyValue is set", () => {
+      const specification = {
+        parameters: [
+          { name: "search", in: "query", required: true, schema: { type: "string", minLength: 1 } },
+          { name: "flag", in: "query", required: true, allowEmptyValue: true, schema: { type: "boolean" } }
+        ]
+      };
+      const request = { query: { search: "", flag: "" }, params: {}, headers: {} } as any as FastifyRequest;
+      const result = parseOperationParameters(specification as any, request);
+      expect(result.query).toEqual({ flag: "" });
+      expect(result.errors).toEqual([{ name: "search", in: "query", message: "is required" }]);
     });
 
-    it("(2) should validate valid response", () => {
+    it("(10) should parse, coerce and validate cookie parameters", () => {
       const specification = {
-        responses: {
-          "200": {
-            content: {
-              "application/json": {
-                schema: {
-                  type: "object",
-                  properties: {
-                    data: { type: "string" }
-                  }
-                }
-              }
-            }
-          }
-        }
+        parameters: [
+          { name: "session", in: "cookie", required: true, schema: { type: "string" } },
+          { name: "remember", in: "cookie", schema: { type: "boolean" } },
+          { name: "csrf", in: "cookie", required: true, schema: { type: "string" } }
+        ]
       };
-      const reply = {
-        statusCode: 200
-      } as FastifyReply;
-      const result = validateResponse(specification as any, reply, { data: "test" });
-      expect(result.isValid).toBe(true);
+      const request = { query: {}, params: {}, headers: { cookie: "session=abc; remember=true" } } as any as FastifyRequest;
+      const result = parseOperationParameters(specification as any, request);
+      expect(result.cookies).toEqual({ session: "abc", remember: true });
+      expect((request as any).cookies).toEqual({ session: "abc", remember: true });
+      expect(result.errors).toEqual([{ name: "csrf", in: "cookie", message: "is required" }]);
+    });
+  });
+
+  describe("parseCookieHeader", () => {
+    it("(1) should parse and decode cookies", () => {
+      expect(parseCookieHeader('session=abc123; theme="dark"; name=John%20Doe')).toEqual({ session: "abc123", theme: "dark", name: "John Doe" });
+    });
+
+    it("(2) should ignore malformed pairs and keep the first duplicate", () => {
+      expect(parseCookieHeader("invalid; a=1; a=2; =3")).toEqual({ a: "1" });
+      expect(parseCookieHeader(undefined)).toEqual({});
+    });
+  });
+
+  describe("deserializeParameter", () => {
+    const array = { type: "array", items: { type: "integer" } };
+    const object = { type: "object", properties: { role: { type: "string" }, limit: { type: "integer" } } };
+
+    it("(1) should deserialize form style query parameters", () => {
+      expect(deserializeParameter({ name: "ids", in: "query" }, array, { ids: ["1", "2"] })).toEqual(["1", "2"]);
+      expect(deserializeParameter({ name: "ids", in: "query" }, array, { ids: "1" })).toEqual(["1"]);
+      expect(deserializeParameter({ name: "ids", in: "query", explode: false }, array, { ids: "1,2,3" })).toEqual(["1", "2", "3"]);
+      expect(deserializeParameter({ name: "filter", in: "query" }, object, { role: "admin", limit: "2", other: "x" })).toEqual({ role: "admin", limit: "2" });
+      expect(deserializeParameter({ name: "filter", in: "query", explode: false }, object, { filter: "role,admin,limit,2" })).toEqual({ role: "admin", limit: "2" });
+    });
+
+    it("(2) should deserialize space and pipe delimited query parameters", () => {
+      expect(deserializeParameter({ name: "ids", in: "query", style: "spaceDelimited", explode: false }, array, { ids: "1 2 3" })).toEqual(["1", "2", "3"]);
+      expect(deserializeParameter({ name: "ids", in: "query", style: "pipeDelimited", explode: false }, array, { ids: "1|2|3" })).toEqual(["1", "2", "3"]);
+    });
+
+    it("(3) should deserialize deepObject query parameters", () => {
+      expect(deserializeParameter({ name: "filter", in: "query", style: "deepObject" }, object, { "filter[role]": "admin", "filter[limit]": "2" })).toEqual({ role: "admin", limit: "2" });
+      expect(deserializeParameter({ name: "filter", in: "query", style: "deepObject" }, object, {})).toBeUndefined();
+    });
+
+    it("(4) should split on the raw query for allowReserved parameters", () => {
+      const parameter = { name: "paths", in: "query", explode: false, allowReserved: true };
+      expect(deserializeParameter(parameter, { type: "array" }, { paths: "/a,b,/c" }, { paths: ["/a%2Cb,/c"] })).toEqual(["/a,b", "/c"]);
+      expect(deserializeParameter({ ...parameter, allowReserved: false }, { type: "array" }, { paths: "/a,b,/c" }, { paths: ["/a%2Cb,/c"] })).toEqual(["/a", "b", "/c"]);
+    });
+
+    it("(5) should deserialize simple, label and matrix path parameters", () => {
+      expect(deserializeParameter({ name: "id", in: "path" }, array, { id: "1,2,3" })).toEqual(["1", "2", "3"]);
+      expect(deserializeParameter({ name: "id", in: "path" }, object, { id: "role,admin,limit,2" })).toEqual({ role: "admin", limit: "2" });
+      expect(deserializeParameter({ name: "id", in: "path", explode: true }, object, { id: "role=admin,limit=2" })).toEqual({ role: "admin", limit: "2" });
+      expect(deserializeParameter({ name: "id", in: "path", style: "label" }, { type: "integer" }, { id: ".5" })).toBe("5");
+      expect(deserializeParameter({ name: "id", in: "path", style: "label" }, array, { id: ".1,2,3" })).toEqual(["1", "2", "3"]);
+      expect(deserializeParameter({ name: "id", in: "path", style: "label", explode: true }, array, { id: ".1.2.3" })).toEqual(["1", "2", "3"]);
+      expect(deserializeParameter({ name: "id", in: "path", style: "matrix" }, { type: "integer" }, { id: ";id=5" })).toBe("5");
+      expect(deserializeParameter({ name: "id", in: "path", style: "matrix" }, array, { id: ";id=1,2,3" })).toEqual(["1", "2", "3"]);
+      expect(deserializeParameter({ name: "id", in: "path", style: "matrix", explode: true }, array, { id: ";id=1;id=2;id=3" })).toEqual(["1", "2", "3"]);
+      expect(deserializeParameter({ name: "id", in: "path", style: "matrix", explode: true }, object, { id: ";role=admin;limit=2" })).toEqual({ role: "admin", limit: "2" });
     });
 
-    it("(3) should return invalid for response that doesn't match schema", () => {
-      const specification = {
-        responses: {
-          "200": {
-            content: {
-              "application/json": {
-                schema: {
-                  type: "object",
-                  properties: {
-                    data: { type: "string" }
-                  },
-                  required: ["data"]
-                }
-              }
-            }
-          }
-        }
-      };
-      const reply = {
-        statusCode: 200
-      } as FastifyReply;
-      const result = validateResponse(specification as any, reply, {});
-      expect(result.isValid).toBe(true);
-      expect(result.errors).toBeDefined();
+    it("(6) should deserialize simple header parameters", () => {
+      expect(deserializeParameter({ name: "X-Ids", in: "header" }, array, { "x-ids": "1, 2, 3" })).toEqual(["1", "2", "3"]);
+      expect(deserializeParameter({ name: "X-Filter", in: "header", explode: true }, object, { "x-filter": "role=admin,limit=2" })).toEqual({ role: "admin", limit: "2" });
+    });
+  });
+
+  describe("getAutoParseConfig", () => {
+    it("(1) should normalize boolean configs", () => {
+      expect(getAutoParseConfig(true)).toEqual({ parameters: { parse: true } });
+      expect(getAutoParseConfig(undefined)).toEqual({ parameters: { parse: false } });
+      expect(getAutoParseConfig({ parameters: false })).toEqual({ parameters: { parse: false } });
+    });
+
+    it("(2) should keep the onError handler", () => {
+      const onError = () => undefined;
+      expect(getAutoParseConfig({ parameters: { parse: true, onError } })).toEqual({ parameters: { parse: true, onError } });
     });
   });
 
@@ -794,6 +1725,69 @@ describe("OpenApiRouter", () => {
       const result = router.op(spec as any, handler as any, options);
       expect(result.options).toEqual(options);
     });
+
+    it("(3) should type defaulted body properties as required only when defaults are applied", () => {
+      const spec = {
+        requestBody: { content: { "application/json": { schema: { type: "object", properties: { name: { type: "string" }, role: { type: "string", default: "user" } }, required: ["name"] } } } },
+        responses: { 200: { description: "OK" } }
+      } as const;
+      const withoutDefaults = router.op(spec, async (request) => {
+        // @ts-expect-error role is optional when defaults are not applied
+        const role: string = request.body.role;
+        return role as any;
+      });
+      const withDefaults = router.op(spec, async (request) => {
+        const role: string = request.body.role;
+        return role as any;
+      }, { normalize: { defaults: true } });
+      const withNormalize = router.op(spec, async (request) => {
+        const role: string = request.body.role;
+        return role as any;
+      }, { normalize: true });
+      expect(withoutDefaults.options).toBeUndefined();
+      expect(withDefaults.options).toEqual({ normalize: { defaults: true } });
+      expect(withNormalize.options).toEqual({ normalize: true });
+    });
+
+    it("(4) should type the body sent by the reply after its status code", () => {
+      const spec = {
+        responses: {
+          200: { description: "OK", content: { "application/json": { schema: { type: "object", properties: { id: { type: "integer" } }, required: ["id"] } } } },
+          404: { description: "Not Found", content: { "application/json": { schema: { type: "object", properties: { message: { type: "string" } }, required: ["message"] } } } }
+        }
+      } as const;
+      const result = router.op(spec, async (request, reply) => {
+        if (request.id === "ok") return reply.code(200).send({ id: 1 });
+        if (request.id === "missing") return reply.code(404).send({ message: "Not Found" });
+        // @ts-expect-error the 404 reply does not declare `id`
+        if (request.id === "wrong") return reply.code(404).send({ id: 1 });
+        return { id: 1 };
+      });
+      expect(result.specification).toBe(spec);
+    });
+
+    it("(5) should type header parameters by their lower-cased names", () => {
+      const result = router.op(<const>{
+        parameters: [
+          { name: "X-Tenant", in: "header", required: true, schema: { type: "string" } },
+          { name: "X-Retries", in: "header", schema: { type: "integer" } }
+        ],
+        responses: { 200: { description: "OK" } }
+      }, async (request) => {
+        const tenant: string = request.headers["x-tenant"];
+        const retries: number | undefined = request.headers["x-retries"];
+        // @ts-expect-error optional headers may be missing
+        const required: number = request.headers["x-retries"];
+        return { tenant, retries, required } as any;
+      });
+      type Headers = FromSpec.Headers<typeof result.specification>;
+      const headers: Headers = { "x-tenant": "acme" };
+      // @ts-expect-error header names are lower-cased
+      const original: Headers = { "X-Tenant": "acme" };
+      // @ts-expect-error required headers must be present
+      const missing: Headers = { "x-retries": 1 };
+      expect([headers, original, missing]).toHaveLength(3);
+    });
   });
 
   describe("ref", () => {
@@ -944,6 +1938,106 @@ describe("OpenApiRouter", () => {
       const result = router.specification;
       expect(result.paths['/test']).toBeUndefined();
     });
+
+    it("(5) should cache the generated document until another route is registered", () => {
+      const handler = async () => ({ message: "test" }) as any;
+      router.route("/a", { get: router.op({ responses: { 200: { description: "OK" } } } as any, handler as any) });
+      const first = router.specification;
+      expect(router.specification).toBe(first);
+      router.route("/b", { get: router.op({ responses: { 200: { description: "OK" } } } as any, handler as any) });
+      const second = router.specification;
+      expect(second).not.toBe(first);
+      expect(Object.keys(second.paths)).toEqual(["/a", "/b"]);
+    });
+  });
+
+  describe("lint", () => {
+    it("(1) should report violations with the route prefix and unresolved ref() paths", () => {
+      const router2 = new OpenApiRouter(app, mockDocument, { prefix: "/api" });
+      const schema = router2.ref("#/components/schemas/Missing" as any);
+      router2.route("/users/:id", { get: router2.op({ responses: { 200: { description: "OK", content: { "application/json": { schema } } } } } as any, (async () => ({})) as any) });
+      expect(router2.lint()).toEqual([
+        { rule: "path-parameters", level: "warn", message: 'Path parameter "id" is not declared', method: "get", path: "/api/users/:id" },
+        { rule: "resolved-refs", level: "warn", message: 'ref("#/components/schemas/Missing") does not resolve in the document' }
+      ]);
+    });
+
+    it("(2) should report every violation as an error in strict mode", () => {
+      const router2 = new OpenApiRouter(app, mockDocument, { lint: { strict: true } });
+      router2.route("/users/:id", { get: router2.op({ responses: {} } as any, (async () => ({})) as any) });
+      expect(router2.lint().map(violation => violation.level)).toEqual(["error", "error"]);
+    });
+  });
+
+  describe("client", () => {
+    it("(1) should call the registered routes by operationId, with the prefix and typed responses", async () => {
+      const router2 = new OpenApiRouter(app, mockDocument, { prefix: "/api" });
+      const users = router2.route("/users/:id", {
+        get: router2.op(<const>{
+          operationId: "getUser",
+          parameters: [
+            { name: "id", in: "path", required: true, schema: { type: "integer" } },
+            { name: "fields", in: "query", explode: false, schema: { type: "array", items: { type: "string" } } }
+          ],
+          responses: {
+            200: { description: "OK", content: { "application/json": { schema: { type: "object", properties: { id: { type: "integer" }, name: { type: "string" } }, required: ["id", "name"] } } } },
+            404: { description: "Not Found", content: { "application/json": { schema: { type: "object", properties: { error: { type: "string" } } } } } }
+          }
+        }, async (request, reply) => {
+          if (Number(request.params.id) !== 1) return reply.code(404).send({ error: "Not Found" });
+          return { id: 1, name: String(request.query.fields ?? "Ada") };
+        })
+      });
+      router2.route("/users", {
+        post: router2.op(<const>{
+          operationId: "createUser",
+          requestBody: { required: true, content: { "application/json": { schema: { type: "object", properties: { name: { type: "string" } } } } } },
+          responses: { 201: { description: "Created" } }
+        }, async (request, reply) => reply.code(201).header("x-name", (request.body as any).name).send())
+      });
+      router2.initialize();
+      const client = router2.client<FromSpec.RouteOperations<typeof users>>();
+      const found = await client.getUser({ params: { id: 1 }, query: { fields: ["id", "name"] } });
+      expect(found.statusCode).toBe(200);
+      if (found.statusCode === 200) expect(found.body.name).toBe("id,name");
+      const missing = await client.getUser({ params: { id: 2 } });
+      expect(missing).toMatchObject({ statusCode: 404, body: { error: "Not Found" } });
+      const created = await (router2.client() as any).createUser({ body: { name: "Grace" } });
+      expect(created).toMatchObject({ statusCode: 201, body: undefined, headers: { "x-name": "Grace" } });
+    });
+
+    it("(2) should check responses against the operation with validateResponse", async () => {
+      const router2 = new OpenApiRouter(app, mockDocument);
+      const users = router2.route("/users/:id", {
+        get: router2.op(<const>{
+          operationId: "getUser",
+          parameters: [{ name: "id", in: "path", required: true, schema: { type: "integer" } }],
+          responses: { 200: { description: "OK", content: { "application/json": { schema: { type: "object", properties: { id: { type: "integer" } } } } } } }
+        }, (async (request: any, reply: any) => request.params.id === "1" ? { id: "one" } : reply.code(500).send({})) as any)
+      });
+      router2.initialize();
+      const client = router2.client<FromSpec.RouteOperations<typeof users>>({ validateResponse: true });
+      await expect(client.getUser({ params: { id: 1 } })).rejects.toThrow("[openapi-fastify] getUser responded with an invalid 200 body: /id must be integer");
+      await expect(client.getUser({ params: { id: 2 } })).rejects.toThrow("[openapi-fastify] getUser responded with undeclared status 500");
+      await expect(client.getUser({ params: { id: 2 } }, { validateResponse: false })).resolves.toMatchObject({ statusCode: 500 });
+    });
+
+    it("(3) should accept the failures the router answers with itself with validateResponse", async () => {
+      const document = { ...mockDocument, components: { securitySchemes: { bearerAuth: { type: "http", scheme: "bearer" } } } };
+      const router2 = new OpenApiRouter(app, document, { security: { bearerAuth: ({ value }) => value === "token" && {} }, autoParse: { parameters: true } });
+      const users = router2.route("/users/:id", {
+        get: router2.op(<const>{
+          operationId: "getUser",
+          security: [{ bearerAuth: [] }],
+          parameters: [{ name: "id", in: "path", required: true, schema: { type: "integer" } }],
+          responses: { 200: { description: "OK" } }
+        }, (async () => ({})) as any)
+      });
+      router2.initialize();
+      const client = router2.client<FromSpec.RouteOperations<typeof users>>({ validateResponse: true });
+      await expect(client.getUser({ params: { id: 1 } })).resolves.toMatchObject({ statusCode: 401 });
+      await expect(client.getUser({ params: { id: 1.5 } }, { headers: { authorization: "Bearer token" } })).resolves.toMatchObject({ statusCode: 400 });
+    });
   });
 
   describe("printRoutes", () => {
@@ -1030,5 +2124,1116 @@ describe("OpenApiRouter", () => {
       const result = router.initialize();
       expect(result).toBe(app);
     });
+
+    it("(4) should throw when a validated schema cannot be compiled", () => {
+      const router2 = new OpenApiRouter(app, mockDocument, { autoValidate: true });
+      const spec = {
+        summary: "Test",
+        requestBody: { content: { "application/json": { schema: { type: "not-a-type" } } } },
+        responses: { 200: { description: "OK" } }
+      };
+      router2.route("/test", {
+        post: router2.op(spec as any, (async () => ({})) as any)
+      });
+      expect(() => router2.initialize()).toThrow(/POST \/test/);
+    });
+
+    it("(5) should compile validators once and reuse them across requests", async () => {
+      const router2 = new OpenApiRouter(app, mockDocument, { autoValidate: true });
+      const spec = {
+        summary: "Test",
+        requestBody: {
+          content: {
+            "application/json": {
+              schema: { type: "object", properties: { name: { type: "string" } }, required: ["name"] }
+            }
+          }
+        },
+        responses: {
+          200: {
+            description: "OK",
+            content: { "application/json": { schema: { type: "object", properties: { name: { type: "string" } } } } }
+          }
+        }
+      };
+      router2.route("/test", {
+        post: router2.op(spec as any, (async (request: any) => request.body) as any)
+      });
+      router2.initialize();
+      const compileSpy = jest.spyOn((router2 as any).getAjv(), 'compile');
+      const valid = await app.inject({ method: "POST", url: "/test", payload: { name: "test" } });
+      const invalid = await app.inject({ method: "POST", url: "/test", payload: { other: "test" } });
+      expect(valid.statusCode).toBe(200);
+      expect(invalid.statusCode).toBe(400);
+      expect(compileSpy).not.toHaveBeenCalled();
+      compileSpy.mockRestore();
+    });
+
+    it("(6) should resolve nested and recursive component refs when validating", async () => {
+      const document = {
+        ...mockDocument,
+        components: {
+          schemas: {
+            Node: {
+              type: "object",
+              properties: {
+                name: { type: "string" },
+                children: { type: "array", items: { $ref: "#/components/schemas/Node" } }
+              },
+              required: ["name"]
+            },
+            Tree: {
+              type: "object",
+              properties: { root: { $ref: "#/components/schemas/Node" } },
+              required: ["root"]
+            }
+          },
+          requestBodies: {
+            Tree: { required: true, content: { "application/json": { schema: { $ref: "#/components/schemas/Tree" } } } }
+          }
+        }
+      };
+      const router2 = new OpenApiRouter(app, document, { autoValidate: true });
+      router2.route("/tree", {
+        post: router2.op({
+          requestBody: router2.ref("#/components/requestBodies/Tree", { useRef: true }),
+          responses: {
+            200: {
+              description: "OK",
+              content: { "application/json": { schema: router2.ref("#/components/schemas/Tree", { useRef: true }) } }
+            }
+          }
+        } as any, (async (request: any) => request.body) as any)
+      });
+      router2.initialize();
+      const valid = await app.inject({ method: "POST", url: "/tree", payload: { root: { name: "a", children: [{ name: "b", children: [{ name: "c" }] }] } } });
+      const invalid = await app.inject({ method: "POST", url: "/tree", payload: { root: { name: "a", children: [{ children: [] }] } } });
+      expect(valid.statusCode).toBe(200);
+      expect(invalid.statusCode).toBe(400);
+    });
+
+    it("(7) should validate OpenAPI 3.1 documents with JSON Schema 2020-12", async () => {
+      const document = {
+        openapi: "3.1.0",
+        info: { title: "Test API", version: "1.0.0" },
+        webhooks: {},
+        components: {
+          schemas: {
+            Point: {
+              $defs: { Coordinate: { type: "number" } },
+              type: "array",
+              prefixItems: [{ $ref: "#/$defs/Coordinate" }, { $ref: "#/$defs/Coordinate" }],
+              minItems: 2,
+              items: false
+            }
+          }
+        }
+      };
+      const router2 = new OpenApiRouter(app, document, { autoValidate: true });
+      router2.route("/points", {
+        post: router2.op({
+          requestBody: {
+            content: {
+              "application/json": {
+                schema: {
+                  type: "object",
+                  properties: {
+                    label: { type: ["string", "null"] },
+                    kind: { const: "point" },
+                    point: { $ref: "#/components/schemas/Point" }
+                  },
+                  required: ["label", "kind", "point"]
+                }
+              }
+            }
+          },
+          responses: { 200: { description: "OK" } }
+        } as any, (async () => ({})) as any)
+      });
+      router2.initialize();
+      const valid = await app.inject({ method: "POST", url: "/points", payload: { label: null, kind: "point", point: [1, 2] } });
+      const invalidConst = await app.inject({ method: "POST", url: "/points", payload: { label: "a", kind: "line", point: [1, 2] } });
+      const invalidTuple = await app.inject({ method: "POST", url: "/points", payload: { label: "a", kind: "point", point: [1, 2, 3] } });
+      expect(valid.statusCode).toBe(200);
+      expect(invalidConst.statusCode).toBe(400);
+      expect(invalidTuple.statusCode).toBe(400);
+    });
+
+    it("(8) should honor nullable in request and response validation", async () => {
+      const document = {
+        ...mockDocument,
+        components: {
+          schemas: {
+            Profile: { type: "object", properties: { bio: { type: "string", nullable: true } }, required: ["bio"], example: { bio: null } }
+          }
+        }
+      };
+      const router2 = new OpenApiRouter(app, document, { autoValidate: true });
+      const schema = {
+        type: "object",
+        properties: {
+          role: { type: "string", enum: ["user", "admin"], nullable: true },
+          profile: { allOf: [{ $ref: "#/components/schemas/Profile" }], nullable: true },
+          tags: { type: "array", items: { type: "string", nullable: true } },
+          choice: { oneOf: [{ type: "number" }, { type: "string", nullable: true }] }
+        },
+        required: ["role", "profile", "tags"]
+      };
+      router2.route("/profiles", {
+        post: router2.op({
+          requestBody: { content: { "application/json": { schema } } },
+          responses: { 200: { description: "OK", content: { "application/json": { schema } } } }
+        } as any, (async (request: any) => request.body) as any)
+      });
+      router2.initialize();
+      const valid = await app.inject({ method: "POST", url: "/profiles", payload: { role: null, profile: null, tags: ["a", null], choice: null } });
+      const validNested = await app.inject({ method: "POST", url: "/profiles", payload: { role: "user", profile: { bio: null }, tags: [] } });
+      const invalid = await app.inject({ method: "POST", url: "/profiles", payload: { role: "other", profile: null, tags: [] } });
+      expect(valid.statusCode).toBe(200);
+      expect(valid.json()).toEqual({ role: null, profile: null, tags: ["a", null], choice: null });
+      expect(validNested.statusCode).toBe(200);
+      expect(invalid.statusCode).toBe(400);
+    });
+
+    it("(9) should send parameter errors to autoParse.parameters.onError", async () => {
+      const onError = jest.fn((request: any, reply: any, errors: any) => reply.status(422).send({ invalid: errors.map((e: any) => e.name) }));
+      const router2 = new OpenApiRouter(app, mockDocument, { autoParse: { parameters: { parse: true, onError } } });
+      const handler = jest.fn(async (request: any) => ({ id: request.params.id, limit: request.query.limit }));
+      router2.route("/items/:id", {
+        get: router2.op({
+          parameters: [
+            { name: "id", in: "path", required: true, schema: { type: "integer", minimum: 1 } },
+            { name: "limit", in: "query", schema: { type: "integer", maximum: 10 } }
+          ],
+          responses: { 200: { description: "OK" } }
+        } as any, handler as any)
+      });
+      router2.initialize();
+      const valid = await app.inject({ method: "GET", url: "/items/1?limit=5" });
+      const invalid = await app.inject({ method: "GET", url: "/items/0?limit=50" });
+      expect(valid.statusCode).toBe(200);
+      expect(valid.json()).toEqual({ id: 1, limit: 5 });
+      expect(invalid.statusCode).toBe(422);
+      expect(invalid.json()).toEqual({ invalid: ["id", "limit"] });
+      expect(onError).toHaveBeenCalledTimes(1);
+      expect(handler).toHaveBeenCalledTimes(1);
+    });
+
+    it("(10) should deserialize parameters by style before reaching the handler", async () => {
+      const router2 = new OpenApiRouter(app, mockDocument, { autoParse: { parameters: true } });
+      router2.route("/search/:coords", {
+        get: router2.op({
+          parameters: [
+            { name: "coords", in: "path", style: "matrix", required: true, schema: { type: "array", items: { type: "number" } } },
+            { name: "ids", in: "query", explode: false, schema: { type: "array", items: { type: "integer" }, maxItems: 3 } },
+            { name: "filter", in: "query", style: "deepObject", schema: { type: "object", properties: { status: { type: "string", enum: ["open", "closed"] } } } },
+            { name: "X-Tags", in: "header", schema: { type: "array", items: { type: "string" } } }
+          ],
+          responses: { 200: { description: "OK" } }
+        } as any, (async (request: any) => ({ coords: request.params.coords, ids: request.query.ids, filter: request.query.filter, tags: request.headers["x-tags"] })) as any)
+      });
+      router2.initialize();
+      const valid = await app.inject({ method: "GET", url: "/search/;coords=1.5,2?ids=1,2,3&filter[status]=open", headers: { "x-tags": "a, b" } });
+      const invalid = await app.inject({ method: "GET", url: "/search/;coords=1,2?ids=1,2,3,4&filter[status]=pending" });
+      expect(valid.statusCode).toBe(200);
+      expect(valid.json()).toEqual({ coords: [1.5, 2], ids: [1, 2, 3], filter: { status: "open" }, tags: ["a", "b"] });
+      expect(invalid.statusCode).toBe(400);
+      expect(invalid.json().errors.map((error: any) => error.name)).toEqual(["ids", "filter"]);
+    });
+
+    it("(11) should expose validated cookie parameters on request.cookies", async () => {
+      const router2 = new OpenApiRouter(app, mockDocument, { autoParse: { parameters: true } });
+      router2.route("/session", {
+        get: router2.op({
+          parameters: [
+            { name: "session", in: "cookie", required: true, schema: { type: "string", minLength: 3 } },
+            { name: "visits", in: "cookie", schema: { type: "integer" } }
+          ],
+          responses: { 200: { description: "OK" } }
+        } as any, (async (request: any) => request.cookies) as any)
+      });
+      router2.initialize();
+      const valid = await app.inject({ method: "GET", url: "/session", headers: { cookie: "session=abcdef; visits=3" } });
+      const missing = await app.inject({ method: "GET", url: "/session" });
+      const invalid = await app.inject({ method: "GET", url: "/session", headers: { cookie: "session=ab; visits=many" } });
+      expect(app.hasRequestDecorator("cookies")).toBe(true);
+      expect(valid.statusCode).toBe(200);
+      expect(valid.json()).toEqual({ session: "abcdef", visits: 3 });
+      expect(missing.statusCode).toBe(400);
+      expect(missing.json().errors).toEqual([{ name: "session", in: "cookie", message: "is required" }]);
+      expect(invalid.json().errors).toEqual([
+        { name: "session", in: "cookie", message: "must NOT have fewer than 3 characters" },
+        { name: "visits", in: "cookie", message: "must be integer" }
+      ]);
+    });
+
+    it("(12) should validate responses against the most specific status and media type", async () => {
+      const error = { type: "object", properties: { message: { type: "string" } }, required: ["message"] };
+      const router2 = new OpenApiRouter(app, mockDocument, { autoValidate: true });
+      router2.route("/replies/:status", {
+        get: router2.op({
+          parameters: [{ name: "status", in: "path", required: true, schema: { type: "integer" } }],
+          responses: {
+            200: { description: "OK", content: { "application/json": { schema: { type: "object", properties: { id: { type: "integer" } }, required: ["id"] } } } },
+            "4XX": { description: "Client Error", content: { "application/problem+json": { schema: { type: "object", properties: { title: { type: "string" } }, required: ["title"] } } } },
+            default: { description: "Error", content: { "application/json": { schema: error } } }
+          }
+        } as any, (async (request: any, reply: any) => {
+          const status = Number(request.params.status);
+          reply.code(status);
+          if (request.query.type) reply.type(request.query.type);
+          return request.query.body ? JSON.parse(request.query.body) : {};
+        }) as any)
+      });
+      router2.initialize();
+      const get = (status: number, body: any, type?: string) => app.inject({ method: "GET", url: `/replies/${status}`, query: { body: JSON.stringify(body), ...(type ? { type } : {}) } });
+      expect((await get(200, { id: 1 })).statusCode).toBe(200);
+      expect((await get(404, { title: "Not Found" }, "application/problem+json; charset=utf-8")).statusCode).toBe(404);
+      expect((await get(404, { title: "Not Found" })).statusCode).toBe(404);
+      expect((await get(503, { message: "Unavailable" })).statusCode).toBe(503);
+      const invalidRange = await get(404, { detail: "Not Found" }, "application/problem+json");
+      const invalidDefault = await get(503, { reason: "Unavailable" });
+      expect(invalidRange.statusCode).toBe(500);
+      expect(invalidRange.json()).toEqual({ error: "Internal Server Error" });
+      expect(invalidDefault.statusCode).toBe(500);
+      expect(invalidDefault.json()).toEqual({ error: "Internal Server Error" });
+    });
+
+    it("(13) should match request body media types and reject undeclared ones with 415", async () => {
+      const router2 = new OpenApiRouter(app, mockDocument, { autoValidate: true });
+      router2.route("/orders", {
+        post: router2.op({
+          requestBody: {
+            required: true,
+            content: {
+              "application/json": { schema: { type: "object", properties: { sku: { type: "string" } }, required: ["sku"] } },
+              "text/*": {}
+            }
+          },
+          responses: { 200: { description: "OK" } }
+        } as any, (async () => ({})) as any)
+      });
+      app.addContentTypeParser("application/vnd.acme+json", { parseAs: "string" }, (request: any, body: any, done: any) => done(null, JSON.parse(body)));
+      app.addContentTypeParser("application/xml", { parseAs: "string" }, (request: any, body: any, done: any) => done(null, body));
+      router2.initialize();
+      const post = (payload: string, contentType?: string) => app.inject({ method: "POST", url: "/orders", payload, headers: contentType ? { "content-type": contentType } : {} });
+      expect((await post('{"sku":"a"}', "application/json; charset=utf-8")).statusCode).toBe(200);
+      expect((await post('{"sku":"a"}', "application/vnd.acme+json")).statusCode).toBe(200);
+      expect((await post('{"id":1}', "application/vnd.acme+json")).statusCode).toBe(400);
+      expect((await post("sku", "text/plain")).statusCode).toBe(200);
+      expect((await post('{"id":1}', "application/json; charset=utf-8")).statusCode).toBe(400);
+      const missing = await app.inject({ method: "POST", url: "/orders" });
+      expect(missing.statusCode).toBe(400);
+      expect(missing.json().errors[0].message).toBe("Request Body is required");
+      const unsupported = await post("<order/>", "application/xml");
+      expect(unsupported.statusCode).toBe(415);
+      expect(unsupported.json()).toEqual({ error: "Unsupported Media Type", contentType: "application/xml", supported: ["application/json", "text/*"] });
+    });
+
+    it("(14) should hand operations to Fastify as native schemas when nativeSchema is enabled", async () => {
+      const document = {
+        ...mockDocument,
+        components: { schemas: { User: { type: "object", properties: { id: { type: "integer" }, name: { type: "string", nullable: true, example: "Ada" } }, required: ["id"] } } }
+      };
+      const router2 = new OpenApiRouter(app, document, { nativeSchema: true, autoValidate: true });
+      router2.route("/members/:id", {
+        put: router2.op({
+          parameters: [
+            { name: "id", in: "path", required: true, schema: { type: "integer" } },
+            { name: "notify", in: "query", schema: { type: "boolean", default: false } },
+            { name: "X-Tenant-Id", in: "header", required: true, schema: { type: "string" } }
+          ],
+          requestBody: { required: true, content: { "application/json": { schema: { $ref: "#/components/schemas/User" } } } },
+          responses: { 200: { description: "OK", content: { "application/json": { schema: { $ref: "#/components/schemas/User" } } } } }
+        } as any, (async (request: any) => ({ ...request.body, id: request.params.id, notify: request.query.notify, password: "secret" })) as any)
+      });
+      router2.initialize();
+      const valid = await app.inject({ method: "PUT", url: "/members/3", headers: { "x-tenant-id": "acme" }, payload: { id: 1, name: null } });
+      const invalidPath = await app.inject({ method: "PUT", url: "/members/abc", headers: { "x-tenant-id": "acme" }, payload: { id: 1 } });
+      const missingHeader = await app.inject({ method: "PUT", url: "/members/3", payload: { id: 1 } });
+      const invalidBody = await app.inject({ method: "PUT", url: "/members/3", headers: { "x-tenant-id": "acme" }, payload: { name: "Ada" } });
+      expect(valid.statusCode).toBe(200);
+      expect(valid.json()).toEqual({ id: 3, name: null });
+      expect(invalidPath.statusCode).toBe(400);
+      expect(missingHeader.statusCode).toBe(400);
+      expect(invalidBody.statusCode).toBe(400);
+      expect(app.getSchema(`${DOCUMENT_SCHEMA_ID}/components/schemas/User`)).toBeDefined();
+    });
+
+    it("(15) should normalize request bodies and parameters according to the normalize option", async () => {
+      const document = {
+        ...mockDocument,
+        components: { schemas: { Address: { type: "object", properties: { city: { type: "string" }, country: { type: "string", default: "NL" } } } } }
+      };
+      const router2 = new OpenApiRouter(app, document, { autoValidate: true, autoParse: { parameters: true }, normalize: { defaults: true, additionalProperties: "remove" } });
+      const schema = {
+        type: "object",
+        properties: {
+          name: { type: "string" },
+          age: { type: "integer" },
+          role: { type: "string", default: "user" },
+          address: { $ref: "#/components/schemas/Address" }
+        },
+        required: ["name"]
+      };
+      const spec = {
+        parameters: [{ name: "limit", in: "query", schema: { type: "integer", default: 10 } }],
+        requestBody: { content: { "application/json": { schema } } },
+        responses: { 200: { description: "OK" } }
+      };
+      const handler = (async (request: any) => ({ body: request.body, limit: request.query.limit })) as any;
+      router2.route("/normalized", { post: router2.op(spec as any, handler) });
+      router2.route("/rejected", { post: router2.op(spec as any, handler, { normalize: { additionalProperties: "reject" } }) });
+      router2.route("/coerced", { post: router2.op(spec as any, handler, { normalize: { coerceTypes: true } }) });
+      router2.initialize();
+      const normalized = await app.inject({ method: "POST", url: "/normalized", payload: { name: "Ada", extra: true, address: { city: "Delft", extra: true } } });
+      expect(normalized.json()).toEqual({ body: { name: "Ada", role: "user", address: { city: "Delft", country: "NL" } }, limit: 10 });
+      const rejected = await app.inject({ method: "POST", url: "/rejected", payload: { name: "Ada", extra: true } });
+      expect(rejected.statusCode).toBe(400);
+      expect((await app.inject({ method: "POST", url: "/rejected", payload: { name: "Ada" } })).json()).toEqual({ body: { name: "Ada", role: "user" }, limit: 10 });
+      const coerced = await app.inject({ method: "POST", url: "/coerced", payload: { name: "Ada", age: "42", extra: true } });
+      expect(coerced.json()).toEqual({ body: { name: "Ada", age: 42, role: "user" }, limit: 10 });
+      const uncoerced = await app.inject({ method: "POST", url: "/normalized", payload: { name: "Ada", age: "42" } });
+      expect(uncoerced.statusCode).toBe(400);
+    });
+
+    it("(16) should parse, validate and type multipart/form-data bodies", async () => {
+
+      const router2 = new OpenApiRouter(app, mockDocument, { autoValidate: true });
+      const handler = jest.fn(async (request: any) => ({
+        title: request.body.title,
+        tags: request.body.tags,
+        avatar: { filename: request.body.avatar.filename, mimetype: request.body.avatar.mimetype, content: request.body.avatar.data.toString() }
+      }));
+      router2.route("/uploads", {
+        post: router2.op({
+          requestBody: {
+            content: {
+              "multipart/form-data": {
+                schema: {
+                  type: "object",
+                  properties: {
+                    title: { type: "string", minLength: 2 },
+                    tags: { type: "array", items: { type: "string" } },
+                    avatar: { type: "string", format: "binary", maxLength: 16 }
+                  },
+                  required: ["title", "avatar"]
+                },
+                encoding: { avatar: { contentType: "image/png, image/jpeg" } }
+              }
+            }
+          },
+          responses: { 200: { description: "OK" } }
+        } as any, handler as any)
+      });
+      router2.initialize();
+      const upload = (parts: Parameters<typeof multipartBody>[1]) => app.inject({ method: "POST", url: "/uploads", headers: { "content-type": "multipart/form-data; boundary=test-boundary" }, payload: multipartBody("test-boundary", parts) });
+      const valid = await upload([{ name: "title", value: "Me" }, { name: "tags", value: "a" }, { name: "tags", value: "b" }, { name: "avatar", filename: "me.png", contentType: "image/png", value: "png-bytes" }]);
+      expect(valid.statusCode).toBe(200);
+      expect(valid.json()).toEqual({ title: "Me", tags: ["a", "b"], avatar: { filename: "me.png", mimetype: "image/png", content: "png-bytes" } });
+      expect((await upload([{ name: "title", value: "M" }, { name: "avatar", filename: "me.png", contentType: "image/png", value: "png" }])).statusCode).toBe(400);
+      expect((await upload([{ name: "title", value: "Me" }])).statusCode).toBe(400);
+      expect((await upload([{ name: "title", value: "Me" }, { name: "avatar", filename: "me.gif", contentType: "image/gif", value: "gif" }])).statusCode).toBe(415);
+      expect((await upload([{ name: "title", value: "Me" }, { name: "avatar", filename: "me.png", contentType: "image/png", value: "a-png-larger-than-16-bytes" }])).statusCode).toBe(413);
+      expect(handler).toHaveBeenCalledTimes(1);
+    });
+
+    it("(17) should parse, coerce and validate application/x-www-form-urlencoded bodies", async () => {
+      const router2 = new OpenApiRouter(app, mockDocument, { autoValidate: true });
+      router2.route("/forms", {
+        post: router2.op({
+          requestBody: {
+            content: {
+              "application/x-www-form-urlencoded": {
+                schema: {
+                  type: "object",
+                  properties: { name: { type: "string" }, age: { type: "integer", minimum: 0 }, ids: { type: "array", items: { type: "integer" } } },
+                  required: ["name"]
+                },
+                encoding: { ids: { explode: false } }
+              }
+            }
+          },
+          responses: { 200: { description: "OK" } }
+        } as any, (async (request: any) => request.body) as any)
+      });
+      router2.initialize();
+      const submit = (payload: string) => app.inject({ method: "POST", url: "/forms", headers: { "content-type": "application/x-www-form-urlencoded" }, payload });
+      const valid = await submit("name=Ada&age=42&ids=1,2");
+      expect(valid.statusCode).toBe(200);
+      expect(valid.json()).toEqual({ name: "Ada", age: 42, ids: [1, 2] });
+      expect((await submit("name=Ada&age=old")).statusCode).toBe(400);
+      expect((await submit("age=42")).statusCode).toBe(400);
+    });
+
+    it("(18) should enforce security requirements and expose the auth results", async () => {
+      const document = {
+        ...mockDocument,
+        security: [{ bearerAuth: ["users:read"] }],
+        components: { securitySchemes: { bearerAuth: { type: "http", scheme: "bearer" }, apiKey: { type: "apiKey", in: "query", name: "key" } } }
+      };
+      const router2 = new OpenApiRouter(app, document, {
+        security: {
+          bearerAuth: async ({ value }) => value === "token" ? { userId: 1, scopes: ["users:read"] } : undefined,
+          apiKey: ({ value }) => value === "key" && { service: "internal" }
+        }
+      });
+      router2.route("/secure", {
+        get: router2.op({ responses: { 200: { description: "OK" } } } as any, (async (request: any) => request.auth) as any),
+        post: router2.op({ security: [{ bearerAuth: ["users:write"] }, { apiKey: [] }], responses: { 200: { description: "OK" } } } as any, (async (request: any) => request.auth) as any),
+        put: router2.op({ security: [], responses: { 200: { description: "OK" } } } as any, (async (request: any) => request.auth) as any)
+      });
+      router2.initialize();
+      const authorized = await app.inject({ method: "GET", url: "/secure", headers: { authorization: "Bearer token" } });
+      expect(authorized.json()).toEqual({ bearerAuth: { userId: 1, scopes: ["users:read"] } });
+      const unauthorized = await app.inject({ method: "GET", url: "/secure" });
+      expect(unauthorized.statusCode).toBe(401);
+      expect(unauthorized.headers["www-authenticate"]).toBe("Bearer");
+      const forbidden = await app.inject({ method: "POST", url: "/secure", headers: { authorization: "Bearer token" } });
+      expect(forbidden.statusCode).toBe(403);
+      expect(forbidden.json()).toEqual({ error: "Forbidden", missingScopes: ["users:write"] });
+      expect((await app.inject({ method: "POST", url: "/secure?key=key" })).json()).toEqual({ apiKey: { service: "internal" } });
+      expect((await app.inject({ method: "PUT", url: "/secure" })).json()).toEqual({});
+    });
+
+    it("(19) should throw when a required security scheme is unknown or has no verifier", () => {
+      const document = { ...mockDocument, components: { securitySchemes: { bearerAuth: { type: "http", scheme: "bearer" } } } };
+      const router2 = new OpenApiRouter(app, document, { security: { apiKey: () => true } });
+      router2.route("/secure", { get: router2.op({ security: [{ bearerAuth: [] }], responses: { 200: { description: "OK" } } } as any, (async () => ({})) as any) });
+      expect(() => router2.initialize()).toThrow('[openapi-fastify] No verifier registered for security scheme "bearerAuth" (GET /secure)');
+      const router3 = new OpenApiRouter(Fastify(), document, { security: { apiKey: () => true } });
+      router3.route("/secure", { get: router3.op({ security: [{ apiKey: [] }], responses: { 200: { description: "OK" } } } as any, (async () => ({})) as any) });
+      expect(() => router3.initialize()).toThrow('[openapi-fastify] Unknown security scheme "apiKey" (GET /secure)');
+    });
+
+    it("(20) should serve the specification and docs page with ETags, excluded from the specification", async () => {
+      const router2 = new OpenApiRouter(app, mockDocument, { docs: { yaml: "/spec.yaml", ui: false } });
+      router2.route("/items", { get: router2.op({ summary: "Items", responses: { 200: { description: "OK" } } } as any, (async () => []) as any) });
+      router2.initialize();
+      const json = await app.inject({ method: "GET", url: "/openapi.json" });
+      expect(json.statusCode).toBe(200);
+      expect(json.headers["content-type"]).toBe("application/json; charset=utf-8");
+      expect(Object.keys(json.json().paths)).toEqual(["/items"]);
+      const yaml = await app.inject({ method: "GET", url: "/spec.yaml" });
+      expect(yaml.headers["content-type"]).toBe("application/yaml; charset=utf-8");
+      expect(yaml.body).toContain("paths:\n  /items:\n    get:\n      summary: Items");
+      expect((await app.inject({ method: "GET", url: "/docs" })).statusCode).toBe(404);
+      const etag = json.headers.etag as string;
+      expect(etag).toMatch(/^".+"$/);
+      const cached = await app.inject({ method: "GET", url: "/openapi.json", headers: { "if-none-match": etag } });
+      expect(cached.statusCode).toBe(304);
+      expect(cached.body).toBe("");
+    });
+
+    it("(21) should warn about lint violations, and throw listing every violation in strict mode", () => {
+      const warn = spyOnWarn(app);
+      const register = (router2: OpenApiRouter<any>) => router2.route("/users/:id", {
+        get: router2.op({ operationId: "getUser", responses: {} } as any, (async () => ({})) as any),
+        put: router2.op({ operationId: "getUser", parameters: [{ name: "id", in: "path", required: true }], responses: { 200: { description: "OK" } } } as any, (async () => ({})) as any)
+      });
+      const router2 = new OpenApiRouter(app, mockDocument);
+      register(router2);
+      router2.initialize();
+      expect(warn).toHaveBeenCalledWith('[openapi-fastify] GET /users/:id: Path parameter "id" is not declared (path-parameters)');
+      const router3 = new OpenApiRouter(Fastify(), mockDocument, { lint: { strict: true } });
+      register(router3);
+      expect(() => router3.initialize()).toThrow([
+        "[openapi-fastify] Specification lint failed:",
+        '  - GET /users/:id: Path parameter "id" is not declared (path-parameters)',
+        "  - GET /users/:id: No responses are declared (responses)",
+        '  - PUT /users/:id: operationId "getUser" is already used by GET /users/:id (unique-operation-ids)'
+      ].join("\n"));
+      warn.mockRestore();
+    });
+
+    it("(22) should implement document operations by operationId and report or stub the unimplemented ones", async () => {
+      const document = {
+        ...mockDocument,
+        paths: {
+          "/users/{id}": {
+            parameters: [{ name: "id", in: "path", required: true, schema: { type: "integer" } }],
+            get: { operationId: "getUser", responses: { 200: { description: "OK" } } },
+            delete: { operationId: "deleteUser", responses: { 204: { description: "Deleted" } } }
+          }
+        }
+      };
+      const failing = new OpenApiRouter(Fastify(), document, { unimplemented: "error" });
+      failing.implement("getUser" as never, (async () => ({})) as any);
+      expect(() => failing.initialize()).toThrow("[openapi-fastify] Unimplemented operations:\n  - DELETE /users/{id} (deleteUser)");
+      expect(() => failing.implement("listUsers" as never, (async () => ({})) as any)).toThrow('[openapi-fastify] Operation "listUsers" is not in the document\'s paths');
+      const router2 = new OpenApiRouter(app, document, { unimplemented: "stub", autoParse: { parameters: true } });
+      router2.implement("getUser" as never, (async (request: any) => ({ id: request.params.id })) as any);
+      router2.initialize();
+      expect(router2.routes.map(route => [route.path, Object.keys(route.methods)])).toEqual([["/users/:id", ["get", "delete"]]]);
+      expect((await app.inject({ method: "GET", url: "/users/7" })).json()).toEqual({ id: 7 });
+      const stubbed = await app.inject({ method: "DELETE", url: "/users/7" });
+      expect(stubbed.statusCode).toBe(501);
+      expect(stubbed.json()).toEqual({ error: "Not Implemented" });
+      expect(router2.specification.paths["/users/{id}"]).toBe(document.paths["/users/{id}"]);
+    });
+
+    it("(23) should mock unimplemented operations, picking the status and example from the request", async () => {
+      const document = {
+        ...mockDocument,
+        paths: {
+          "/users/{id}": {
+            parameters: [{ name: "id", in: "path", required: true, schema: { type: "integer" } }],
+            get: {
+              operationId: "getUser",
+              responses: {
+                200: { description: "OK", content: { "application/json": { schema: { $ref: "#/components/schemas/User" }, examples: { admin: { value: { id: 1, name: "root" } } } } } },
+                404: { description: "Not Found", content: { "application/json": { schema: { type: "object", properties: { error: { type: "string", enum: ["Not Found"] } } } } } }
+              }
+            },
+            delete: { operationId: "deleteUser", responses: { 204: { description: "Deleted" } } }
+          }
+        }
+      };
+      const router2 = new OpenApiRouter(app, document, { mock: { statusHeader: "prefer-status" }, autoValidate: { response: true } });
+      router2.implement("deleteUser" as never, (async (request: any, reply: any) => reply.code(204).send()) as any);
+      router2.initialize();
+      expect((await app.inject({ method: "GET", url: "/users/1" })).json()).toEqual({ id: 1, name: "root" });
+      const notFound = await app.inject({ method: "GET", url: "/users/1", headers: { "prefer-status": "404" } });
+      expect(notFound.statusCode).toBe(404);
+      expect(notFound.json()).toEqual({ error: "Not Found" });
+      expect((await app.inject({ method: "GET", url: "/users/1?__status=404" })).statusCode).toBe(404);
+      expect((await app.inject({ method: "DELETE", url: "/users/1" })).statusCode).toBe(204);
+    });
+
+    it("(24) should register the router, route and operator hooks with each operation, in that order", async () => {
+      const calls: string[] = [];
+      const hook = (name: string) => async () => { calls.push(name); };
+      const router2 = new OpenApiRouter(app, mockDocument, { onRequest: [hook("router:onRequest")], preHandler: [hook("router:preHandler")] });
+      const spec = { responses: { 200: { description: "OK" } } };
+      router2.route("/items", {
+        get: router2.op(spec as any, (async () => { calls.push("handler"); return { name: "item" }; }) as any, {
+          preValidation: [hook("operator:preValidation")],
+          preHandler: [hook("operator:preHandler")],
+          preSerialization: [async (request: any, reply: any, payload: any) => ({ ...payload, serialized: true })],
+          onSend: [hook("operator:onSend")],
+          onResponse: [hook("operator:onResponse")]
+        }),
+        post: router2.op(spec as any, (async () => ({})) as any, {
+          preHandler: [async (request: any, reply: any) => reply.code(403).send({ error: "Forbidden" })]
+        })
+      }, { preHandler: [hook("route:preHandler")] });
+      router2.initialize();
+      const response = await app.inject({ method: "GET", url: "/items" });
+      expect(response.json()).toEqual({ name: "item", serialized: true });
+      expect(calls).toEqual(["router:onRequest", "operator:preValidation", "router:preHandler", "route:preHandler", "operator:preHandler", "handler", "operator:onSend", "operator:onResponse"]);
+      calls.length = 0;
+      const forbidden = await app.inject({ method: "POST", url: "/items" });
+      expect(forbidden.statusCode).toBe(403);
+      expect(calls).toEqual(["router:onRequest", "router:preHandler", "route:preHandler"]);
+    });
+
+    it("(25) should leave $ref'd allOf members open when removing or rejecting additional properties", async () => {
+      const document = {
+        ...mockDocument,
+        components: { schemas: { Base: { type: "object", properties: { name: { type: "string" } }, required: ["name"] } } }
+      };
+      const router2 = new OpenApiRouter(app, document, { autoValidate: true });
+      const spec = {
+        requestBody: { content: { "application/json": { schema: { allOf: [{ $ref: "#/components/schemas/Base" }, { type: "object", properties: { age: { type: "integer" } } }] } } } },
+        responses: { 200: { description: "OK" } }
+      };
+      const handler = (async (request: any) => request.body) as any;
+      router2.route("/removed", { post: router2.op(spec as any, handler, { normalize: { additionalProperties: "remove" } }) });
+      router2.route("/rejected", { post: router2.op(spec as any, handler, { normalize: { additionalProperties: "reject" } }) });
+      router2.initialize();
+      for (const url of ["/removed", "/rejected"]) {
+        const response = await app.inject({ method: "POST", url, payload: { name: "rex", age: 3 } });
+        expect(response.statusCode).toBe(200);
+        expect(response.json()).toEqual({ name: "rex", age: 3 });
+      }
+    });
+
+    it("(26) should reject undeclared content types without validation and resolve $ref'd request bodies", async () => {
+      const router2 = new OpenApiRouter(app, mockDocument);
+      router2.route("/orders", {
+        post: router2.op({ requestBody: { content: { "application/json": {} } }, responses: { 200: { description: "OK" } } } as any, (async () => ({})) as any),
+        put: router2.op({ requestBody: { content: { "application/json": {} } }, responses: { 200: { description: "OK" } } } as any, (async () => ({})) as any, { autoValidate: false })
+      });
+      router2.initialize();
+      for (const method of ["POST", "PUT"] as const) {
+        const response = await app.inject({ method, url: "/orders", payload: "sku", headers: { "content-type": "text/plain" } });
+        expect(response.statusCode).toBe(415);
+      }
+      expect((await app.inject({ method: "POST", url: "/orders", payload: { sku: "a" } })).statusCode).toBe(200);
+
+      const app2 = Fastify();
+      const document = { ...mockDocument, components: { requestBodies: { Order: { required: true, content: { "application/json": { schema: { type: "object" } } } } } } };
+      const router3 = new OpenApiRouter(app2, document, { autoValidate: true });
+      router3.route("/orders", { post: router3.op({ requestBody: { $ref: "#/components/requestBodies/Order" }, responses: { 200: { description: "OK" } } } as any, (async () => ({})) as any) });
+      router3.initialize();
+      const missing = await app2.inject({ method: "POST", url: "/orders" });
+      expect(missing.statusCode).toBe(400);
+      expect(missing.json().errors[0].message).toBe("Request Body is required");
+    });
+
+    it("(27) should replace an invalid response with the payload returned by onError", async () => {
+      const onError = jest.fn((request: any, reply: any, errors: any) => {
+        if (request.query.fail) throw Object.assign(new Error("Upstream Failure"), { statusCode: 503 });
+        reply.status(502);
+        return { error: "Invalid Response", fields: errors.map((error: any) => error.params.missingProperty) };
+      });
+      const router2 = new OpenApiRouter(app, mockDocument, { autoValidate: { response: { validate: true, onError } } });
+      router2.route("/profile", {
+        get: router2.op({
+          responses: { 200: { description: "OK", content: { "application/json": { schema: { type: "object", properties: { id: { type: "integer" } }, required: ["id"] } } } } }
+        } as any, (async () => ({ name: "Ada" })) as any)
+      });
+      router2.initialize();
+      const replaced = await app.inject({ method: "GET", url: "/profile" });
+      expect(replaced.statusCode).toBe(502);
+      expect(replaced.json()).toEqual({ error: "Invalid Response", fields: ["id"] });
+      const thrown = await app.inject({ method: "GET", url: "/profile?fail=1" });
+      expect(thrown.statusCode).toBe(503);
+      expect(thrown.json()).toMatchObject({ message: "Upstream Failure" });
+      expect(onError).toHaveBeenCalledTimes(2);
+    });
+
+    it("(28) should hand typed header parameters to the handler", async () => {
+      const router2 = new OpenApiRouter(app, mockDocument, { autoParse: { parameters: true } });
+      router2.route("/tenants", {
+        get: router2.op(<const>{
+          parameters: [
+            { name: "X-Tenant", in: "header", required: true, schema: { type: "string" } },
+            { name: "X-Retries", in: "header", schema: { type: "integer" } }
+          ],
+          responses: { 200: { description: "OK" } }
+        }, async (request) => {
+          const retries: number | undefined = request.headers["x-retries"];
+          return { tenant: request.headers["x-tenant"].toUpperCase(), retries: (retries ?? 0) + 1 } as any;
+        })
+      });
+      router2.initialize();
+      const response = await app.inject({ method: "GET", url: "/tenants", headers: { "X-Tenant": "acme", "X-Retries": "2" } });
+      expect(response.statusCode).toBe(200);
+      expect(response.json()).toEqual({ tenant: "ACME", retries: 3 });
+    });
+
+    it("(29) should only warn about unimplemented operations once document operations are implemented", () => {
+      const document = {
+        ...mockDocument,
+        paths: {
+          "/users": {
+            get: { operationId: "listUsers", responses: { 200: { description: "OK" } } },
+            post: { operationId: "createUser", responses: { 201: { description: "Created" } } }
+          }
+        }
+      };
+      const warn = spyOnWarn(app);
+      const router2 = new OpenApiRouter(app, document);
+      router2.route("/health", { get: router2.op({ responses: { 200: { description: "OK" } } } as any, (async () => ({})) as any) });
+      router2.initialize();
+      expect(warn).not.toHaveBeenCalled();
+      const app2 = Fastify();
+      const warn2 = spyOnWarn(app2);
+      const router3 = new OpenApiRouter(app2, document);
+      router3.implement("listUsers" as never, (async () => ({})) as any);
+      router3.initialize();
+      expect(warn2).toHaveBeenCalledWith("[openapi-fastify] Operation POST /users (createUser) is not implemented");
+      warn.mockRestore();
+      warn2.mockRestore();
+    });
+
+    it("(30) should enforce the security requirements of GET operations on their automatic HEAD routes", async () => {
+      const document = { ...mockDocument, components: { securitySchemes: { bearerAuth: { type: "http", scheme: "bearer" } } } };
+      const handler = jest.fn(async () => ({ secret: true }));
+      const router2 = new OpenApiRouter(app, document, { security: { bearerAuth: async ({ value }) => value === "token" ? { scopes: [] } : undefined } });
+      router2.route("/secret", { get: router2.op({ security: [{ bearerAuth: ["secrets:read"] }], responses: { 200: { description: "OK" } } } as any, handler as any) });
+      router2.initialize();
+      expect((await app.inject({ method: "HEAD", url: "/secret" })).statusCode).toBe(401);
+      expect((await app.inject({ method: "HEAD", url: "/secret", headers: { authorization: "Bearer token" } })).statusCode).toBe(403);
+      expect(handler).not.toHaveBeenCalled();
+      expect((await app.inject({ method: "GET", url: "/secret" })).statusCode).toBe(401);
+    });
+
+    it("(31) should parse form bodies of operations handed to Fastify as native schemas", async () => {
+      const router2 = new OpenApiRouter(app, mockDocument, { nativeSchema: true });
+      const schema = { type: "object", properties: { name: { type: "string" }, age: { type: "integer" } }, required: ["name", "age"] };
+      router2.route("/forms", {
+        post: router2.op({ requestBody: { required: true, content: { "application/x-www-form-urlencoded": { schema } } }, responses: { 200: { description: "OK" } } } as any, (async (request: any) => request.body) as any),
+        put: router2.op({ requestBody: { required: true, content: { "multipart/form-data": { schema } } }, responses: { 200: { description: "OK" } } } as any, (async (request: any) => request.body) as any)
+      });
+      router2.initialize();
+      const urlencoded = await app.inject({ method: "POST", url: "/forms", headers: { "content-type": "application/x-www-form-urlencoded" }, payload: "name=Ada&age=42" });
+      expect(urlencoded.statusCode).toBe(200);
+      expect(urlencoded.json()).toEqual({ name: "Ada", age: 42 });
+      expect((await app.inject({ method: "POST", url: "/forms", headers: { "content-type": "application/x-www-form-urlencoded" }, payload: "name=Ada" })).statusCode).toBe(400);
+      const boundary = "----openapi-fastify";
+      const multipart = await app.inject({
+        method: "PUT",
+        url: "/forms",
+        headers: { "content-type": `multipart/form-data; boundary=${boundary}` },
+        payload: [`--${boundary}`, 'Content-Disposition: form-data; name="name"', "", "Ada", `--${boundary}`, 'Content-Disposition: form-data; name="age"', "", "42", `--${boundary}--`, ""].join("\r\n")
+      });
+      expect(multipart.statusCode).toBe(200);
+      expect(multipart.json()).toEqual({ name: "Ada", age: 42 });
+    });
+
+    it("(32) should register hooks calling Fastify's done callback", async () => {
+      const calls: string[] = [];
+      const router2 = new OpenApiRouter(app, mockDocument, { onRequest: [(request, reply, done) => { calls.push("router:onRequest"); done(); }] });
+      router2.route("/items/:id", {
+        get: router2.op(<const>{
+          parameters: [{ name: "id", in: "path", required: true, schema: { type: "string" } }],
+          responses: { 200: { description: "OK", content: { "application/json": { schema: { type: "object", properties: { id: { type: "string" } }, required: ["id"] } } } } }
+        }, async (request) => ({ id: request.params.id }), {
+          preHandler: [(request, reply, done) => { calls.push(`operator:preHandler:${request.params.id}`); done(); }],
+          preSerialization: [(request, reply, payload, done) => done(null, { id: `${payload.id}!` })]
+        })
+      });
+      router2.initialize();
+      const response = await app.inject({ method: "GET", url: "/items/a" });
+      expect(response.json()).toEqual({ id: "a!" });
+      expect(calls).toEqual(["router:onRequest", "operator:preHandler:a"]);
+    });
+  });
+});
+
+describe("generateClient", () => {
+  const document = {
+    openapi: "3.1.0",
+    info: { title: "Pets", version: "1.0.0" },
+    servers: [{ url: "https://api.example.com/" }],
+    components: {
+      schemas: {
+        Pet: {
+          type: "object",
+          description: "A pet",
+          properties: { id: { type: "integer" }, name: { type: "string" }, tag: { type: ["string", "null"] }, "owner-id": { type: "integer" } },
+          required: ["id", "name"]
+        },
+        Response: { type: "object", properties: { error: { type: "string" } }, required: ["error"] },
+        Node: { type: "object", properties: { children: { type: "array", items: { $ref: "#/components/schemas/Node" } } } }
+      }
+    },
+    paths: {
+      "/pets/{id}": {
+        parameters: [{ name: "id", in: "path", required: true, schema: { type: "integer" } }],
+        get: {
+          operationId: "getPet",
+          summary: "Get a pet",
+          parameters: [{ name: "fields", in: "query", explode: false, schema: { type: "array", items: { type: "string" } } }, { name: "x-tenant", in: "header", schema: { type: "string" } }],
+          responses: {
+            200: { description: "OK", content: { "application/json": { schema: { $ref: "#/components/schemas/Pet" } } } },
+            404: { description: "Not Found", content: { "application/json": { schema: { $ref: "#/components/schemas/Response" } } } }
+          }
+        },
+        delete: { responses: { 204: { description: "Deleted" }, default: { description: "Error", content: { "text/plain": { schema: { type: "string" } } } } } }
+      },
+      "/pets": {
+        post: {
+          operationId: "createPet",
+          requestBody: { required: true, content: { "application/json": { schema: { type: "object", properties: { name: { type: "string" } }, required: ["name"] } } } },
+          responses: { 201: { description: "Created", content: { "application/json": { schema: { $ref: "#/components/schemas/Pet" } } } } }
+        }
+      }
+    }
+  } as const;
+
+  it("(1) should emit schema types, typed requests and discriminated results", () => {
+    const source = generateClient(document, { name: "createPetsClient" });
+    expect(source).toContain([
+      "/** A pet */",
+      "export type Pet = {",
+      "  id: number;",
+      "  name: string;",
+      "  tag?: string | null;",
+      "  \"owner-id\"?: number;",
+      "};",
+    ].join("\n"));
+    expect(source).toContain("export type ResponseSchema = {");
+    expect(source).toContain("  children?: Array<Node>;");
+    expect(source).toContain([
+      "  getPet: {",
+      "    request: {",
+      "      params: {",
+      "        id: number;",
+      "      };",
+      "      query?: {",
+      "        fields?: Array<string>;",
+      "      };",
+      "      headers?: {",
+      "        \"x-tenant\"?: string;",
+      "      };",
+      "    };",
+      "    result:",
+      "      | ApiSuccess<200, Pet>",
+      "      | ApiFailure<404, ResponseSchema>",
+      "      | ApiFailure<400, unknown>;",
+      "  };",
+    ].join("\n"));
+    expect(source).toContain("  deletePetsById: {");
+    expect(source).toContain("      | ApiSuccess<204, undefined>\n      | ApiFailure<number, string>;\n");
+    expect(source).toContain("export const createPetsClient = (options: ClientOptions = {}) => {");
+    expect(source).toContain('const baseUrl = (options.baseUrl ?? "https://api.example.com/")');
+  });
+
+  it("(2) should generate a client that calls the operations with fetch", async () => {
+    const app = Fastify();
+    const router = new OpenApiRouter(app, document, { autoParse: { parameters: true } });
+    router.implement("getPet", async (request, reply) => request.params.id === 1
+      ? { id: 1, name: `${request.query.fields}|${request.headers["x-tenant"]}` }
+      : reply.code(404).send({ error: "Not Found" }));
+    router.implement("createPet", async (request, reply) => reply.code(201).send({ id: 2, name: request.body.name }));
+    router.initialize();
+    const requests: string[] = [];
+    const fetch = async (url: string, init: RequestInit) => {
+      requests.push(`${init.method} ${url}`);
+      const headers: Record<string, string> = {};
+      (init.headers as Headers).forEach((value, name) => { headers[name] = value; });
+      const response = await app.inject({ method: init.method as any, url: url.replace("http://localhost/api", ""), headers, payload: init.body as string });
+      return new Response(response.body || null, { status: response.statusCode, headers: Object.entries(response.headers).map(([name, value]): [string, string] => [name, String(value)]) });
+    };
+    const module: any = {};
+    new Function("exports", transpileModule(generateClient(document), { compilerOptions: { module: ModuleKind.CommonJS, target: ScriptTarget.ES2020 } }).outputText)(module);
+    const client = module.createClient({ baseUrl: "http://localhost/api/", fetch, headers: () => ({ "x-tenant": "acme" }) });
+    const found = await client.getPet({ params: { id: 1 }, query: { fields: ["id", "name"] } });
+    expect(found).toMatchObject({ ok: true, status: 200, data: { id: 1, name: "id,name|acme" } });
+    expect(requests).toEqual(["GET http://localhost/api/pets/1?fields=id%2Cname"]);
+    expect(await client.getPet({ params: { id: 2 } })).toMatchObject({ ok: false, status: 404, error: { error: "Not Found" } });
+    expect(await client.createPet({ body: { name: "Rex" } })).toMatchObject({ ok: true, status: 201, data: { id: 2, name: "Rex" } });
+    await expect(client.getPet({ params: {} })).rejects.toThrow('Missing path parameter "id" (GET /pets/{id})');
+  });
+
+  it("(3) should narrow the error of a declared failure status", () => {
+    const directory = mkdtempSync(join(tmpdir(), "openapi-fastify-"));
+    try {
+      const file = join(directory, "client.ts");
+      writeFileSync(file, [
+        generateClient(document),
+        "declare const client: Client;",
+        "export const getPetError = async (): Promise<string | undefined> => {",
+        "  const result = await client.getPet({ params: { id: 1 } });",
+        "  if (!result.ok && result.status === 404) return result.error.error;",
+        "  if (result.ok) return result.data.name;",
+        "  return undefined;",
+        "};",
+        ""
+      ].join("\n"));
+      const program = createProgram([file], { strict: true, noEmit: true, skipLibCheck: true, target: ScriptTarget.ES2020, lib: ["lib.es2020.d.ts", "lib.dom.d.ts", "lib.dom.iterable.d.ts"] });
+      expect(getPreEmitDiagnostics(program).map(diagnostic => flattenDiagnosticMessageText(diagnostic.messageText, "\n"))).toEqual([]);
+    } finally {
+      rmSync(directory, { recursive: true, force: true });
+    }
+  });
+
+  it("(4) should throw for a status the operation does not declare", async () => {
+    const module: any = {};
+    new Function("exports", transpileModule(generateClient(document), { compilerOptions: { module: ModuleKind.CommonJS, target: ScriptTarget.ES2020 } }).outputText)(module);
+    const client = module.createClient({ fetch: async () => new Response("Unavailable", { status: 503 }) });
+    await expect(client.getPet({ params: { id: 1 } })).rejects.toThrow("Undeclared response status 503 (GET /pets/{id})");
+    expect(await client.deletePetsById({ params: { id: 1 } })).toMatchObject({ ok: false, status: 503 });
+  });
+
+  it("(5) should return the failures the router answers with itself as typed results", async () => {
+    const secured = { ...document, security: [{ bearerAuth: [] }], components: { ...document.components, securitySchemes: { bearerAuth: { type: "http", scheme: "bearer" } } } };
+    const source = generateClient(secured);
+    expect(source).toContain("      | ApiSuccess<201, Pet>\n      | ApiFailure<400, unknown>\n      | ApiFailure<401, unknown>\n      | ApiFailure<403, unknown>\n      | ApiFailure<415, unknown>;\n");
+    const module: any = {};
+    new Function("exports", transpileModule(source, { compilerOptions: { module: ModuleKind.CommonJS, target: ScriptTarget.ES2020 } }).outputText)(module);
+    for (const status of [400, 401, 403, 415]) {
+      const client = module.createClient({ fetch: async () => Response.json({ error: "Failed" }, { status }) });
+      expect(await client.createPet({ body: { name: "Rex" } })).toMatchObject({ ok: false, status, error: { error: "Failed" } });
+    }
+    const client = module.createClient({ fetch: async () => new Response("Unavailable", { status: 503 }) });
+    await expect(client.createPet({ body: { name: "Rex" } })).rejects.toThrow("Undeclared response status 503 (POST /pets)");
+  });
+});
+
+describe("generateSpecModule", () => {
+  const yaml = [
+    "openapi: 3.0.0",
+    "info:",
+    "  title: Pets",
+    "  version: '1.0'",
+    "components:",
+    "  schemas:",
+    "    Pet:",
+    "      description: A pet",
+    "      type: object",
+    "      properties:",
+    "        id: { type: integer }",
+    "        name: { type: string }",
+    "        status: { $ref: '#/components/schemas/Status' }",
+    "      required: [id, name]",
+    "    Status:",
+    "      type: string",
+    "      enum: [available, sold]",
+    "    Record:",
+    "      type: object",
+    "      additionalProperties: { type: string }",
+    "paths:",
+    "  /pets/{id}:",
+    "    get:",
+    "      operationId: getPet",
+    "      parameters:",
+    "        - { name: id, in: path, required: true, schema: { type: integer } }",
+    "      responses:",
+    "        '200':",
+    "          description: OK",
+    "          content:",
+    "            application/json:",
+    "              schema: { $ref: '#/components/schemas/Pet' }",
+  ].join("\n");
+
+  it("(1) should emit component types and the document as const", () => {
+    const source = generateSpecModule(parseYaml(yaml), { name: "petsSpec" });
+    expect(source).toContain([
+      "/** A pet */",
+      "export interface Pet {",
+      "  id: number;",
+      "  name: string;",
+      "  status?: Status;",
+      "}",
+      "",
+      'export type Status = "available" | "sold";',
+      "",
+      "export type RecordSchema = Record<string, string>;",
+      "",
+      "export const petsSpec = {",
+      '  openapi: "3.0.0",',
+      '  info: { title: "Pets", version: "1.0" },',
+    ].join("\n"));
+    expect(source).toContain('        parameters: [{ name: "id", in: "path", required: true, schema: { type: "integer" } }],');
+    expect(source).toContain('          "200": {');
+    expect(source.endsWith("} as const;\n\nexport default petsSpec;\n")).toBe(true);
+  });
+
+  it("(2) should generate a module a router can be created from", () => {
+    const module: any = {};
+    new Function("exports", transpileModule(generateSpecModule(parseYaml(yaml)), { compilerOptions: { module: ModuleKind.CommonJS, target: ScriptTarget.ES2020 } }).outputText)(module);
+    expect(module.default).toBe(module.specification);
+    expect(module.specification).toEqual(parseYaml(yaml));
+    const directory = mkdtempSync(join(tmpdir(), "openapi-fastify-"));
+    try {
+      writeFileSync(join(directory, "specification.ts"), generateSpecModule(parseYaml(yaml)));
+      const file = join(directory, "routes.ts");
+      writeFileSync(file, [
+        `import { OpenApiRouter } from ${JSON.stringify(join(__dirname, "../../src/router"))};`,
+        'import specification, { Pet } from "./specification";',
+        "declare const app: ConstructorParameters<typeof OpenApiRouter>[0];",
+        "const router = new OpenApiRouter(app, specification, { autoParse: { parameters: true } });",
+        'router.implement("getPet", async (request): Promise<Pet> => ({ id: request.params.id, name: "Rex", status: "sold" }));',
+        "// @ts-expect-error the operationId is not declared by the specification",
+        'router.implement("getPets", async () => []);',
+        ""
+      ].join("\n"));
+      const program = createProgram([file], { strict: true, noEmit: true, skipLibCheck: true, target: ScriptTarget.ES2020, module: ModuleKind.CommonJS });
+      expect(getPreEmitDiagnostics(program).map(diagnostic => flattenDiagnosticMessageText(diagnostic.messageText, "\n"))).toEqual([]);
+    } finally {
+      rmSync(directory, { recursive: true, force: true });
+    }
+  });
+
+  it("(3) should rename component types that would shadow global types", () => {
+    const source = generateSpecModule({
+      openapi: "3.1.0",
+      info: { title: "Errors", version: "1.0" },
+      components: {
+        schemas: {
+          Error: { type: "object", properties: { message: { type: "string" } }, required: ["message"] },
+          date: { type: "string", format: "date" },
+          Failure: { type: "object", properties: { error: { $ref: "#/components/schemas/Error" }, at: { $ref: "#/components/schemas/date" } } }
+        }
+      }
+    });
+    expect(source).toContain("export interface ErrorSchema {");
+    expect(source).toContain("export type DateSchema = string;");
+    expect(source).toContain("  error?: ErrorSchema;\n  at?: DateSchema;");
+    expect(source).not.toMatch(/export (interface|type) (Error|Date)\b/);
+  });
+});
+
+describe("cli", () => {
+  const appModule = "tests/integration/testApp/app.ts";
+  const routes = "tests/integration/testApp/routes.ts";
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "openapi-fastify-"));
+    jest.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+    jest.restoreAllMocks();
+  });
+
+  it("(1) should export the autoloaded specification with sorted keys and paths", async () => {
+    const out = join(dir, "openapi.json");
+    expect(await run(["export", appModule, "--export", "$", "--autoload", routes, "--out", out])).toBe(0);
+    const written = readFileSync(out, "utf8");
+    const spec = JSON.parse(written);
+    expect(Object.keys(spec)).toEqual([...Object.keys(spec)].sort());
+    expect(Object.keys(spec.paths)).toEqual([...Object.keys(spec.paths)].sort());
+    expect(spec.paths["/health"]).toBeDefined();
+    expect(written.endsWith("}\n")).toBe(true);
+  });
+
+  it("(2) should infer YAML from the output extension", async () => {
+    const out = join(dir, "openapi.yaml");
+    expect(await run(["export", appModule, "--export", "$", "--out", out])).toBe(0);
+    expect(readFileSync(out, "utf8")).toMatch(/^components:\n/);
+  });
+
+  it("(3) should exit non-zero in check mode when the file is stale", async () => {
+    const out = join(dir, "openapi.json");
+    expect(await run(["export", appModule, "--out", out, "--check"])).toBe(1);
+    expect(await run(["export", appModule, "--out", out])).toBe(0);
+    expect(await run(["export", appModule, "--out", out, "--check"])).toBe(0);
+    writeFileSync(out, "{}\n");
+    expect(await run(["export", appModule, "--out", out, "--check"])).toBe(1);
+    expect(console.error).toHaveBeenCalledWith(expect.stringContaining("is out of date"));
+  });
+
+  it("(4) should fail on unknown commands and modules without a router", async () => {
+    expect(await run(["publish", appModule])).toBe(1);
+    expect(await run(["export", "tests/integration/testApp/db.mock.ts"])).toBe(1);
+    expect(console.error).toHaveBeenLastCalledWith("[openapi-fastify] The module does not export an OpenApiRouter");
+  });
+
+  it("(5) should generate a client from a specification file", async () => {
+    const spec = join(dir, "openapi.yaml");
+    const out = join(dir, "client.ts");
+    writeFileSync(spec, toYaml({ openapi: "3.1.0", info: { title: "T", version: "1" }, paths: { "/health": { get: { operationId: "healthCheck", responses: { 200: { description: "OK" } } } } } }));
+    expect(await run(["generate", spec, "--name", "createApi", "--out", out])).toBe(0);
+    expect(readFileSync(out, "utf8")).toContain("export const createApi = (options: ClientOptions = {}) => {");
+    expect(readFileSync(out, "utf8")).toContain('request("GET", "/health", { statuses: ["200"] }, input, init)');
+    expect(await run(["generate", spec, "--name", "createApi", "--out", out, "--check"])).toBe(0);
+    expect(await run(["generate", spec, "--out", out, "--check"])).toBe(1);
+  });
+
+  it("(6) should write a spec module from a specification file", async () => {
+    const spec = join(dir, "openapi.json");
+    const out = join(dir, "specification.ts");
+    writeFileSync(spec, JSON.stringify({ openapi: "3.1.0", info: { title: "T", version: "1" }, paths: {} }));
+    expect(await run(["spec", spec, "--name", "api", "--out", out])).toBe(0);
+    expect(readFileSync(out, "utf8")).toContain('export const api = { openapi: "3.1.0", info: { title: "T", version: "1" }, paths: {} } as const;');
+    expect(await run(["spec", spec, "--name", "api", "--out", out, "--check"])).toBe(0);
+    expect(await run(["spec", spec, "--watch"])).toBe(1);
+    expect(console.error).toHaveBeenLastCalledWith("[openapi-fastify] --watch requires --out (and cannot be combined with --check)");
+    expect(await run(["spec", appModule, "--watch", "--out", out])).toBe(1);
+    expect(console.error).toHaveBeenLastCalledWith("[openapi-fastify] --watch requires a specification file (.json, .yaml or .yml)");
+  });
+
+  it("(7) should call the listener once per change of the watched file", async () => {
+    const spec = join(dir, "openapi.yaml");
+    writeFileSync(spec, "openapi: 3.1.0\n");
+    const listener = jest.fn();
+    const changed = new Promise<void>(done => {
+      const watcher = watchSpecificationFile(spec, () => {
+        listener();
+        setTimeout(() => { watcher.close(); done(); }, 100);
+      }, 20);
+    });
+    writeFileSync(join(dir, "other.yaml"), "openapi: 3.1.0\n");
+    writeFileSync(spec, "openapi: 3.0.0\n");
+    writeFileSync(spec, "openapi: 3.0.3\n");
+    await changed;
+    expect(listener).toHaveBeenCalledTimes(1);
   });
 });